@@ -1,70 +1,340 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { generateLotteryData } from './services/geminiService';
-import { DrawResult, LottoGame } from './types';
+import { scrapeRange, refreshArchivedDate, fetchChunk, lastDrawableDate, scrapeFresh } from './services/scraper';
+import { reconcileSnapshots } from './services/reconciliation';
+import { EXPORT_FORMATS, ExportFormat, exportDraws } from './services/drawExport';
+import { downloadFile } from './services/download';
+import { importDraws, ImportRowError } from './services/drawImport';
+import { buildCoverageReport } from './services/drawSchedule';
+import { drawKey, isLottoGame } from './services/gameRules';
+import { dedupeDraws } from './services/drawIdentity';
+import { linkedGamesOf } from './services/drawNights';
+import { checkTicket } from './services/ticketChecker';
+import { DEFAULT_DRAW_QUERY } from './services/drawQuery';
+import { deliverAlert, findAlerts, loadFiredAlertIds, loadWatchlist, saveFiredAlertIds, saveWatchlist } from './services/watchlist';
+import { loadLedger, saveLedger, settleTickets, ticketsByDraw } from './services/syndicate';
+import { ChunkOutcome, ScrapeChunk, ScrapeProgress } from './services/scrapePlanner';
+import { clearArchive, getArchivedDraws, putArchivedDraws } from './services/drawArchive';
+import { geminiProvider } from './services/geminiService';
+import { createHtmlProvider, SavedPage } from './services/htmlResultsProvider';
+import { createFixtureProvider, sampleFixtureProvider } from './services/fixtureProvider';
+import { DrawHighlight, DrawQuery, DrawResult, FetchSnapshot, Ledger, LottoGame, ReconciledDraw, RejectedDraw, ResultProvider, ScrapeError, Ticket, Watchlist, WatchAlert } from './types';
 import DrawTable from './components/DrawTable';
+import ValidationSummary from './components/ValidationSummary';
+import FailedChunks from './components/FailedChunks';
+import CoveragePanel from './components/CoveragePanel';
+import StatsView from './components/StatsView';
+import AuditView from './components/AuditView';
+import PatternExplorer from './components/PatternExplorer';
+import DrawNightView from './components/DrawNightView';
+import JackpotView from './components/JackpotView';
+import TicketChecker from './components/TicketChecker';
+import ProviderPicker, { ProviderId } from './components/ProviderPicker';
+import ReconciliationPanel from './components/ReconciliationPanel';
+import ExportMenu from './components/ExportMenu';
+import ImportReport from './components/ImportReport';
+import ScraperStatus from './components/ScraperStatus';
+import WatchlistPanel from './components/WatchlistPanel';
+import BacktestPanel from './components/BacktestPanel';
+import SyndicateWallet from './components/SyndicateWallet';
 
-const LOADING_MESSAGES = [
-  "Initializing secure connection to National Lottery archives...",
-  "Searching records for the requested date range...",
-  "Scraping winning numbers for Daily Lotto & PowerBall...",
-  "Verifying results across multiple official sources...",
-  "Validating jackpot amounts and bonus ball configurations...",
-  "Applying grounding filters for data integrity...",
-  "Formatting results for export-ready table display...",
-  "Finalizing data processing and verifying draw IDs..."
+type View = 'table' | 'nights' | 'jackpots' | 'stats' | 'patterns' | 'audit' | 'tickets' | 'backtest' | 'syndicate' | 'watchlist';
+
+const VIEW_OPTIONS: { id: View; label: string }[] = [
+  { id: 'table', label: 'Results' },
+  { id: 'nights', label: 'By Draw Night' },
+  { id: 'jackpots', label: 'Jackpots' },
+  { id: 'stats', label: 'Statistics' },
+  { id: 'patterns', label: 'Patterns' },
+  { id: 'audit', label: 'Fairness Audit' },
+  { id: 'tickets', label: 'Check Tickets' },
+  { id: 'backtest', label: 'Backtest' },
+  { id: 'syndicate', label: 'Syndicate' },
+  { id: 'watchlist', label: 'Watchlist' }
 ];
 
 const App: React.FC = () => {
   const [draws, setDraws] = useState<DrawResult[]>([]);
   const [sources, setSources] = useState<{ uri: string; title: string }[]>([]);
+  const [rejected, setRejected] = useState<RejectedDraw[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // The classified cause behind `error`, with the action that would try the same fetch again
+  const [failure, setFailure] = useState<{ error: ScrapeError; retry: () => void } | null>(null);
   const [filter, setFilter] = useState<string>('All');
-  const [loadingStep, setLoadingStep] = useState(0);
+  const [view, setView] = useState<View>('table');
+  const [tableQuery, setTableQuery] = useState<DrawQuery>(DEFAULT_DRAW_QUERY);
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [watchlist, setWatchlist] = useState<Watchlist>(loadWatchlist);
+  const [ledger, setLedger] = useState<Ledger>(loadLedger);
+  const [alerts, setAlerts] = useState<WatchAlert[]>([]);
+  const [deliveryError, setDeliveryError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ScrapeProgress | null>(null);
+  const [failedChunks, setFailedChunks] = useState<ChunkOutcome[]>([]);
+  const [retryingChunk, setRetryingChunk] = useState<string | null>(null);
+  // Without a key the live scraper can only fail, so start on the bundled sample data
+  const [providerId, setProviderId] = useState<ProviderId>(process.env.API_KEY ? 'gemini' : 'fixture');
+  const [savedPages, setSavedPages] = useState<SavedPage[]>([]);
+  const [fixtureFile, setFixtureFile] = useState<{ name: string; data: unknown } | null>(null);
+  const [snapshots, setSnapshots] = useState<FetchSnapshot[]>([]);
+  const [chosenVersions, setChosenVersions] = useState<Record<string, string>>({});
+  const fetchCountRef = useRef(0);
+  const [importReport, setImportReport] = useState<{ fileName: string; importedCount: number; errors: ImportRowError[] } | null>(null);
   
   // Defaulting to the most recent week of the requested period in 2026
   const [startDate, setStartDate] = useState('2026-02-01');
   const [endDate, setEndDate] = useState('2026-02-07');
 
-  const loadingIntervalRef = useRef<number | null>(null);
+  const provider = useMemo<ResultProvider>(() => {
+    if (providerId === 'html') return createHtmlProvider(savedPages);
+    if (providerId === 'fixture') {
+      return fixtureFile ? createFixtureProvider(fixtureFile.data, fixtureFile.name) : sampleFixtureProvider;
+    }
+    return geminiProvider;
+  }, [providerId, savedPages, fixtureFile]);
+
+  const loadProviderFiles = (files: { name: string; text: string }[]) => {
+    if (files.length === 0) return;
+    if (providerId === 'html') {
+      setSavedPages(files.map(f => ({ name: f.name, html: f.text })));
+      return;
+    }
+    const [file] = files;
+    try {
+      setFixtureFile({ name: file.name, data: JSON.parse(file.text) });
+    } catch (err) {
+      setError(`${file.name} is not valid JSON.`);
+    }
+  };
+
+  // Each fetch gets an id; a response whose id is no longer current was superseded or cancelled
+  const requestRef = useRef<{ id: number; controller: AbortController } | null>(null);
+  const requestCountRef = useRef(0);
+
+  const startRequest = () => {
+    requestRef.current?.controller.abort();
+    const request = { id: ++requestCountRef.current, controller: new AbortController() };
+    requestRef.current = request;
+    return request;
+  };
+
+  const isCurrent = (id: number) => requestRef.current?.id === id;
+
+  const finishRequest = (id: number) => {
+    if (!isCurrent(id)) return false;
+    requestRef.current = null;
+    setLoading(false);
+    return true;
+  };
+
+  const cancelFetch = () => {
+    requestRef.current?.controller.abort();
+  };
+
+  // Results for the old range would land under the new one, so the request is dropped as well as aborted
+  useEffect(() => {
+    const request = requestRef.current;
+    if (!request) return;
+    request.controller.abort();
+    finishRequest(request.id);
+  }, [startDate, endDate]);
+
+  // Read through refs so fetches started before a watchlist edit still check the latest one
+  const watchlistRef = useRef(watchlist);
+  watchlistRef.current = watchlist;
+  const firedAlertsRef = useRef<Set<string>>(loadFiredAlertIds());
+
+  const updateWatchlist = (next: Watchlist) => {
+    setWatchlist(next);
+    saveWatchlist(next);
+  };
+
+  const updateLedger = (next: Ledger) => {
+    setLedger(next);
+    saveLedger(next);
+  };
+
+  // Settle wallet tickets whenever draws they cover arrive, from a fetch or the archive
+  useEffect(() => {
+    const settled = settleTickets(ledger, draws);
+    if (settled !== ledger) updateLedger(settled);
+  }, [draws, ledger]);
+
+  const ticketCounts = useMemo(() => ticketsByDraw(ledger), [ledger]);
+
+  const raiseAlerts = (fetched: DrawResult[]) => {
+    const fresh = findAlerts(watchlistRef.current, fetched, firedAlertsRef.current);
+    if (fresh.length === 0) return;
+    fresh.forEach(alert => firedAlertsRef.current.add(alert.id));
+    saveFiredAlertIds(firedAlertsRef.current);
+    setAlerts(prev => [...fresh, ...prev]);
+    fresh.forEach(async alert => {
+      const draw = fetched.find(d => d.id === alert.drawId);
+      const problem = draw && await deliverAlert(alert, draw, watchlistRef.current);
+      if (problem) setDeliveryError(problem);
+    });
+  };
+
+  const addSnapshot = useCallback((draws: DrawResult[], label?: string) => {
+    if (draws.length === 0) return;
+    fetchCountRef.current += 1;
+    setSnapshots(prev => [...prev, { label: label || `${provider.label} #${fetchCountRef.current}`, draws }]);
+  }, [provider]);
 
   const fetchData = useCallback(async () => {
+    const request = startRequest();
     setLoading(true);
     setError(null);
-    setLoadingStep(0);
-    
-    loadingIntervalRef.current = window.setInterval(() => {
-      setLoadingStep(prev => (prev + 1) % LOADING_MESSAGES.length);
-    }, 2500);
+    setFailure(null);
+    setProgress(null);
+    setFailedChunks([]);
+    setDraws([]);
 
     try {
-      const response = await generateLotteryData(startDate, endDate);
+      const response = await scrapeRange(
+        provider,
+        startDate,
+        endDate,
+        progress => isCurrent(request.id) && setProgress(progress),
+        {
+          signal: request.controller.signal,
+          onDraws: arrived => isCurrent(request.id) && setDraws(prev => dedupeDraws([...prev, ...arrived]))
+        }
+      );
+      if (!isCurrent(request.id)) return;
       
       if (response.errorDetail) {
         setError(response.errorDetail);
+        if (response.error) setFailure({ error: response.error, retry: fetchData });
       } else if (response.draws.length === 0) {
         setError("No official results found for this specific date range. Note: 2026 dates may have limited availability.");
       }
       
       setDraws(response.draws);
       setSources(response.sources);
+      setRejected(response.rejected);
+      setFailedChunks(response.chunks.filter(c => c.status === 'failed'));
+      addSnapshot(response.fetched);
+      raiseAlerts(response.fetched);
+    } catch (err) {
+      if (isCurrent(request.id)) setError("An unexpected error occurred during the scraping process.");
+      console.error(err);
+    } finally {
+      finishRequest(request.id);
+    }
+  }, [provider, startDate, endDate, addSnapshot]);
+
+  // Draws on show that no snapshot holds, such as those read from the archive, are what a
+  // cross-check compares against
+  const addBaselineSnapshot = (shown: DrawResult[]) => {
+    setSnapshots(prev => {
+      const covered = new Set(prev.flatMap(snapshot => snapshot.draws.map(drawKey)));
+      const baseline = shown.filter(d => !covered.has(drawKey(d)));
+      return baseline.length > 0 ? [...prev, { label: 'Archive', draws: baseline }] : prev;
+    });
+  };
+
+  const crossCheck = useCallback(async () => {
+    addBaselineSnapshot(draws);
+    const request = startRequest();
+    setLoading(true);
+    setError(null);
+    setFailure(null);
+    setProgress(null);
+    try {
+      const response = await scrapeFresh(
+        provider,
+        startDate,
+        endDate,
+        undefined,
+        progress => isCurrent(request.id) && setProgress(progress),
+        undefined,
+        { signal: request.controller.signal }
+      );
+      if (!isCurrent(request.id)) return;
+      if (response.errorDetail) {
+        setError(response.errorDetail);
+        if (response.error) setFailure({ error: response.error, retry: crossCheck });
+      }
+      addSnapshot(response.fetched);
+      raiseAlerts(response.fetched);
     } catch (err) {
-      setError("An unexpected error occurred during the scraping process.");
+      if (isCurrent(request.id)) setError("The cross-check fetch failed.");
       console.error(err);
     } finally {
-      setLoading(false);
-      if (loadingIntervalRef.current) {
-        clearInterval(loadingIntervalRef.current);
+      finishRequest(request.id);
+    }
+  }, [provider, startDate, endDate, addSnapshot, draws]);
+
+  const chooseVersion = async (entry: ReconciledDraw, label: string) => {
+    const version = entry.versions.find(v => v.label === label);
+    if (!version) return;
+    setChosenVersions(prev => ({ ...prev, [entry.key]: label }));
+    setDraws(prev => prev.map(d => drawKey(d) === entry.key ? version.draw : d));
+    if (provider.archived) {
+      await putArchivedDraws([version.draw]);
+    }
+  };
+
+  const retryChunk = useCallback(async (chunk: ScrapeChunk) => {
+    setRetryingChunk(chunk.id);
+    try {
+      const response = await fetchChunk(provider, chunk);
+      if (response.errorDetail) {
+        setFailedChunks(prev => prev.map(c => c.chunk.id === chunk.id ? { ...c, result: response } : c));
+        return;
       }
+      setFailedChunks(prev => prev.filter(c => c.chunk.id !== chunk.id));
+      raiseAlerts(response.draws);
+      setDraws(await getArchivedDraws(startDate, endDate));
+      setRejected(prev => [...prev, ...response.rejected]);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setRetryingChunk(null);
     }
-  }, [startDate, endDate]);
+  }, [provider, startDate, endDate]);
+
+  const refreshDate = useCallback(async (date: string) => {
+    const request = startRequest();
+    setLoading(true);
+    setError(null);
+    setFailure(null);
+    try {
+      const response = await refreshArchivedDate(provider, date, { signal: request.controller.signal });
+      if (!isCurrent(request.id)) return;
+      if (response.errorDetail) {
+        setError(response.errorDetail);
+        if (response.error) setFailure({ error: response.error, retry: () => refreshDate(date) });
+      }
+      raiseAlerts(response.draws);
+      setDraws(await getArchivedDraws(startDate, endDate));
+      setRejected(response.rejected);
+    } catch (err) {
+      if (isCurrent(request.id)) setError("Could not refresh the results for " + date + ".");
+      console.error(err);
+    } finally {
+      finishRequest(request.id);
+    }
+  }, [provider, startDate, endDate]);
+
+  const wipeArchive = async () => {
+    if (!window.confirm("Delete every stored draw? The next refresh will fetch the whole range again.")) return;
+    try {
+      await clearArchive();
+      setDraws([]);
+      setSnapshots([]);
+      setChosenVersions({});
+      setRejected([]);
+      setSources([]);
+    } catch (err) {
+      setError("Could not clear the local archive.");
+      console.error(err);
+    }
+  };
 
   useEffect(() => {
     fetchData();
-    return () => {
-      if (loadingIntervalRef.current) clearInterval(loadingIntervalRef.current);
-    };
   }, []);
 
   const setPresetRange = (type: 'week' | 'month' | 'year') => {
@@ -90,30 +360,76 @@ const App: React.FC = () => {
       : draws.filter(d => d.game === filter);
   }, [draws, filter]);
 
-  const exportToCSV = () => {
+  // A night is shown whole, so filtering to one game keeps its linked siblings
+  const nightDraws = useMemo(() => {
+    if (filter === 'All') return draws;
+    const family = linkedGamesOf(filter as LottoGame);
+    return draws.filter(d => family.includes(d.game));
+  }, [draws, filter]);
+
+  const coverage = useMemo(() => {
+    const rejectedWithDates = rejected
+      .map(r => r.draw)
+      .filter((d): d is Pick<DrawResult, 'game' | 'date'> => isLottoGame(d.game) && typeof d.date === 'string');
+    return buildCoverageReport(
+      draws,
+      startDate,
+      lastDrawableDate(endDate),
+      filter === 'All' ? undefined : [filter as LottoGame],
+      rejectedWithDates
+    );
+  }, [draws, rejected, startDate, endDate, filter]);
+
+  const reconciled = useMemo(() => reconcileSnapshots(snapshots, chosenVersions), [snapshots, chosenVersions]);
+  const verification = useMemo(() => Object.fromEntries(reconciled), [reconciled]);
+  const reconciledInRange = useMemo(
+    () => [...reconciled.values()].filter(r =>
+      r.date >= startDate && r.date <= endDate && (filter === 'All' || r.game === filter)
+    ),
+    [reconciled, startDate, endDate, filter]
+  );
+
+  const ticketChecks = useMemo(() => tickets.flatMap(t => checkTicket(t, draws)), [tickets, draws]);
+
+  const highlights = useMemo(() => {
+    const byDraw: Record<string, DrawHighlight> = {};
+    ticketChecks.forEach(check => {
+      const entry = byDraw[check.drawId] || (byDraw[check.drawId] = { numbers: [], bonusMatched: false });
+      check.matchedNumbers.forEach(n => {
+        if (!entry.numbers.includes(n)) entry.numbers.push(n);
+      });
+      entry.bonusMatched = entry.bonusMatched || check.bonusMatched;
+    });
+    return byDraw;
+  }, [ticketChecks]);
+
+  const exportData = (format: ExportFormat) => {
     if (filteredDraws.length === 0) return;
 
-    const headers = ["Date", "Game", "Winning Numbers", "Bonus/PowerBall", "Jackpot Amount (ZAR)"];
-    const csvContent = [
-      headers.join(","),
-      ...filteredDraws.map(draw => {
-        const specialBall = draw.bonusBall || draw.powerBall || "";
-        const numbers = draw.numbers.join("-");
-        const date = new Date(draw.date).toLocaleDateString('en-ZA');
-        const jackpot = draw.jackpotAmount || 0;
-        return `"${date}","${draw.game}","${numbers}","${specialBall}","${jackpot}"`;
-      })
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `sa_lotto_results_${filter.toLowerCase().replace(/\s/g, '_')}_${startDate}_to_${endDate}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    downloadFile(
+      exportDraws(filteredDraws, format),
+      mimeType,
+      `sa_lotto_results_${filter.toLowerCase().replace(/\s/g, '_')}_${startDate}_to_${endDate}.${extension}`
+    );
+  };
+
+  const importData = async (file: File) => {
+    try {
+      const result = await importDraws(file.name, new Uint8Array(await file.arrayBuffer()));
+      setImportReport({ fileName: file.name, importedCount: result.draws.length, errors: result.errors });
+      if (result.draws.length === 0) return;
+
+      setDraws(prev => dedupeDraws([
+        ...prev,
+        ...result.draws.filter(d => d.date >= startDate && d.date <= endDate)
+      ]));
+      addSnapshot(result.draws, `Import: ${file.name}`);
+      await putArchivedDraws(result.draws);
+    } catch (err) {
+      setError(`Could not import ${file.name}.`);
+      console.error(err);
+    }
   };
 
   const gameOptions = ['All', ...Object.values(LottoGame)];
@@ -136,6 +452,13 @@ const App: React.FC = () => {
             </div>
             
             <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-4 flex-1 lg:justify-end">
+              <ProviderPicker
+                value={providerId}
+                onChange={setProviderId}
+                loadedFiles={providerId === 'html' ? savedPages.map(p => p.name) : fixtureFile && providerId === 'fixture' ? [fixtureFile.name] : []}
+                onFilesLoaded={loadProviderFiles}
+                disabled={loading}
+              />
               <div className="flex flex-col gap-2">
                 <div className="flex items-center gap-1 bg-slate-800 p-1 rounded-lg border border-slate-700 shadow-inner">
                   <div className="flex items-center gap-1 px-2">
@@ -177,30 +500,32 @@ const App: React.FC = () => {
               
               <div className="flex gap-2">
                 <button 
-                  onClick={fetchData}
-                  disabled={loading}
-                  className={`
-                    flex-1 sm:flex-none px-6 py-2 bg-amber-500 text-slate-900 font-bold rounded-lg text-sm 
-                    hover:bg-amber-400 transition-all shadow-[0_4px_0_0_rgb(180,83,9)] active:shadow-none active:translate-y-[4px] flex items-center justify-center gap-2
-                    ${loading ? 'opacity-50 cursor-not-allowed pointer-events-none' : ''}
-                  `}
+                  onClick={loading ? cancelFetch : fetchData}
+                  title={loading ? 'Stop the current fetch' : undefined}
+                  className="flex-1 sm:flex-none px-6 py-2 bg-amber-500 text-slate-900 font-bold rounded-lg text-sm hover:bg-amber-400 transition-all shadow-[0_4px_0_0_rgb(180,83,9)] active:shadow-none active:translate-y-[4px] flex items-center justify-center gap-2"
                 >
                   {loading && <div className="w-4 h-4 border-2 border-slate-900 border-t-transparent animate-spin rounded-full"></div>}
-                  {loading ? 'SCRAPING...' : 'REFRESH DATA'}
+                  {loading ? 'CANCEL' : 'REFRESH DATA'}
                 </button>
+                <ExportMenu
+                  onExport={exportData}
+                  onImport={importData}
+                  canExport={draws.length > 0}
+                  disabled={loading}
+                />
                 <button 
-                  onClick={exportToCSV}
-                  disabled={loading || draws.length === 0}
+                  onClick={wipeArchive}
+                  disabled={loading}
+                  title="Clear local archive"
                   className={`
-                    px-4 py-2 bg-slate-700 text-white font-bold rounded-lg text-sm 
-                    hover:bg-slate-600 transition-all shadow-[0_4px_0_0_rgb(51,65,85)] active:shadow-none active:translate-y-[4px] flex items-center gap-2
-                    ${loading || draws.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}
+                    px-3 py-2 bg-slate-800 text-slate-300 font-bold rounded-lg text-sm border border-slate-700
+                    hover:bg-red-600 hover:text-white hover:border-red-600 transition-all flex items-center gap-2
+                    ${loading ? 'opacity-50 cursor-not-allowed' : ''}
                   `}
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                   </svg>
-                  <span className="hidden sm:inline">EXPORT</span>
                 </button>
               </div>
             </div>
@@ -210,15 +535,17 @@ const App: React.FC = () => {
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8">
         {error && (
-          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl flex items-start gap-3 animate-in slide-in-from-top-4 duration-300">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mt-0.5 text-amber-600" viewBox="0 0 20 20" fill="currentColor">
-              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-            </svg>
-            <div>
-              <p className="text-sm font-bold">Scraper Status</p>
-              <p className="text-xs">{error}</p>
-            </div>
-          </div>
+          <ScraperStatus
+            message={error}
+            error={failure?.error}
+            onRetry={() => failure?.retry()}
+            onUseSampleData={() => {
+              setProviderId('fixture');
+              setError(null);
+              setFailure(null);
+            }}
+            disabled={loading}
+          />
         )}
 
         {sources.length > 0 && (
@@ -243,10 +570,23 @@ const App: React.FC = () => {
                 <span className="inline-block w-1.5 h-1.5 rounded-full bg-emerald-500"></span>
                 Grounding Active
               </span>
+              {draws.some(d => d.provenance) && (
+                <span className="text-[10px] text-slate-400 font-bold tabular-nums">
+                  {draws.filter(d => d.provenance?.official).length} of {draws.filter(d => d.provenance).length} draws officially sourced
+                </span>
+              )}
             </div>
           </div>
         )}
 
+        {importReport && <ImportReport {...importReport} onDismiss={() => setImportReport(null)} />}
+
+        {!loading && <FailedChunks failed={failedChunks} retrying={retryingChunk} onRetry={retryChunk} />}
+
+        {!loading && <ValidationSummary acceptedCount={draws.length} rejected={rejected} />}
+
+        {!loading && <CoveragePanel report={coverage} />}
+
         <section className="mb-10 text-center relative">
           <h2 className="text-3xl md:text-5xl font-black text-slate-900 mb-2 tracking-tight">
             South African Lottery <span className="text-amber-500 relative inline-block">
@@ -259,7 +599,7 @@ const App: React.FC = () => {
           </p>
         </section>
 
-        {loading ? (
+        {loading && draws.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-24 px-4 bg-white/50 backdrop-blur-sm rounded-3xl border-2 border-dashed border-slate-200/60 shadow-inner">
             <div className="relative mb-10">
               <div className="absolute -inset-8 rounded-full bg-amber-100/40 animate-ping opacity-50"></div>
@@ -279,23 +619,70 @@ const App: React.FC = () => {
                   System Scraping Active
                 </p>
                 <div className="h-1 w-24 bg-slate-200 mx-auto rounded-full overflow-hidden">
-                  <div className="h-full bg-amber-500 animate-[loading_2s_ease-in-out_infinite]"></div>
+                  {progress ? (
+                    <div className="h-full bg-amber-500 transition-all duration-500" style={{ width: `${(progress.completed / progress.total) * 100}%` }}></div>
+                  ) : (
+                    <div className="h-full bg-amber-500 animate-[loading_2s_ease-in-out_infinite]"></div>
+                  )}
                 </div>
               </div>
               
               <div className="relative h-12 flex items-center justify-center overflow-hidden">
-                <p key={loadingStep} className="text-slate-500 text-sm font-medium italic animate-in slide-in-from-bottom-2 fade-in duration-500">
-                  {LOADING_MESSAGES[loadingStep]}
+                <p key={progress?.completed ?? -1} className="text-slate-500 text-sm font-medium italic animate-in slide-in-from-bottom-2 fade-in duration-500">
+                  {!progress
+                    ? "Checking the local archive for missing draws..."
+                    : `Chunk ${progress.completed}/${progress.total}, ${progress.drawCount} draws so far`}
                 </p>
               </div>
               
               <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest bg-slate-100 px-3 py-1 rounded-full inline-block">
-                Refining data from multiple endpoints...
+                {progress && progress.failed > 0
+                  ? `${progress.failed} chunk${progress.failed === 1 ? '' : 's'} failed`
+                  : 'Refining data from multiple endpoints...'}
               </p>
             </div>
           </div>
         ) : (
           <>
+            {loading && (
+              <div className="mb-4 p-3 bg-white rounded-xl shadow-sm border border-amber-100 flex items-center gap-4">
+                <div className="w-4 h-4 border-2 border-amber-500 border-t-transparent animate-spin rounded-full shrink-0"></div>
+                <div className="flex-1">
+                  <p className="text-xs font-bold text-slate-600">
+                    {progress
+                      ? `Chunk ${progress.completed}/${progress.total}, ${progress.drawCount} draws so far. Rows appear as they arrive.`
+                      : 'Draws appear as they arrive...'}
+                  </p>
+                  {progress && (
+                    <div className="mt-1.5 h-1 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-amber-500 transition-all duration-500" style={{ width: `${(progress.completed / progress.total) * 100}%` }}></div>
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={cancelFetch}
+                  className="text-[10px] font-black uppercase px-3 py-1.5 rounded-lg bg-slate-900 text-white hover:bg-slate-700 transition-colors shrink-0"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            <div className="mb-4 inline-flex items-center gap-1 bg-slate-200/60 p-1 rounded-xl">
+              {VIEW_OPTIONS.map(opt => (
+                <button
+                  key={opt.id}
+                  onClick={() => setView(opt.id)}
+                  className={`
+                    px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all
+                    ${view === opt.id ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-800'}
+                  `}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+
             <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
               <div className="flex flex-wrap gap-2">
                 {gameOptions.map((opt) => (
@@ -322,7 +709,57 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <DrawTable draws={filteredDraws} filter="All" />
+            {view === 'table' && (
+              <>
+                <ReconciliationPanel
+                  reconciled={reconciledInRange}
+                  snapshotCount={snapshots.length}
+                  onCrossCheck={crossCheck}
+                  onChoose={chooseVersion}
+                  disabled={loading}
+                />
+                <DrawTable
+                  draws={filteredDraws}
+                  query={tableQuery}
+                  onQueryChange={setTableQuery}
+                  onRefreshDate={provider.archived ? refreshDate : undefined}
+                  highlights={highlights}
+                  verification={verification}
+                  ticketCounts={ticketCounts}
+                />
+              </>
+            )}
+            {view === 'nights' && <DrawNightView draws={nightDraws} highlights={highlights} />}
+            {view === 'jackpots' && <JackpotView draws={filteredDraws} />}
+            {view === 'stats' && <StatsView draws={filteredDraws} />}
+            {view === 'patterns' && (
+              <PatternExplorer draws={draws} defaultGame={filter === 'All' ? undefined : filter as LottoGame} highlights={highlights} />
+            )}
+            {view === 'audit' && <AuditView draws={filteredDraws} scope={filter === 'All' ? 'All games' : filter} />}
+            {view === 'tickets' && (
+              <>
+                <TicketChecker
+                  tickets={tickets}
+                  checks={ticketChecks}
+                  onChange={setTickets}
+                  defaultStartDate={startDate}
+                  defaultEndDate={endDate}
+                />
+                <DrawTable
+                  draws={filteredDraws.filter(d => highlights[d.id])}
+                  highlights={highlights}
+                />
+              </>
+            )}
+            {view === 'backtest' && (
+              <BacktestPanel draws={draws} defaultGame={filter === 'All' ? undefined : filter as LottoGame} />
+            )}
+            {view === 'syndicate' && (
+              <SyndicateWallet ledger={ledger} onChange={updateLedger} defaultStartDate={startDate} defaultEndDate={endDate} />
+            )}
+            {view === 'watchlist' && (
+              <WatchlistPanel watchlist={watchlist} onChange={updateWatchlist} alerts={alerts} deliveryError={deliveryError} />
+            )}
           </>
         )}
       </main>
@@ -0,0 +1,151 @@
+import { createHash } from "node:crypto";
+import { stat } from "node:fs/promises";
+import { IncomingMessage, Server, ServerResponse, createServer } from "node:http";
+import { DrawResult, LottoGame } from "../types";
+import { GAME_RULES } from "../services/gameRules";
+import { DRAW_SCHEDULES, parseDrawDate } from "../services/drawSchedule";
+import { computeAllStats, computeGameStats } from "../services/drawStats";
+import { readDrawFile } from "./drawFile";
+
+/** How long clients may reuse a response before revalidating with its ETag. */
+const MAX_AGE_SECONDS = 60;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const newestFirst = (a: DrawResult, b: DrawResult) => b.date.localeCompare(a.date) || a.game.localeCompare(b.game);
+
+/**
+ * Keeps the archive file in memory and re-reads it only when its modification time changes,
+ * so a `scrape --append` into the same file shows up without restarting the server.
+ */
+const createArchiveReader = (file: string, log: (message: string) => void) => {
+  let loadedAt: number | null = null;
+  let draws: DrawResult[] = [];
+
+  return async (): Promise<DrawResult[]> => {
+    const modified = await stat(file).then(s => s.mtimeMs, (err: any) => {
+      if (err?.code === 'ENOENT') return 0;
+      throw err;
+    });
+    if (modified !== loadedAt) {
+      const result = await readDrawFile(file);
+      if (result.errors.length > 0) log(`Skipped ${result.errors.length} unreadable row(s) in ${file}.`);
+      draws = result.draws.sort(newestFirst);
+      loadedAt = modified;
+    }
+    return draws;
+  };
+};
+
+const parseGame = (value: string | null): LottoGame | undefined => {
+  if (value === null || value === '') return undefined;
+  const game = Object.values(LottoGame).find(g => g.toLowerCase() === value.toLowerCase());
+  if (!game) throw new HttpError(400, `Unknown game "${value}". Games: ${Object.values(LottoGame).join(', ')}.`);
+  return game;
+};
+
+const parseDateParam = (params: URLSearchParams, name: string): string | undefined => {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  if (!parseDrawDate(value)) throw new HttpError(400, `${name} must be a YYYY-MM-DD date.`);
+  return value;
+};
+
+/**
+ * Routes a request to the JSON body it should return. Every route reads the archive only.
+ */
+const route = async (url: URL, loadDraws: () => Promise<DrawResult[]>): Promise<unknown> => {
+  const params = url.searchParams;
+  const path = url.pathname.replace(/\/+$/, '') || '/';
+
+  if (path === '/games') {
+    const draws = await loadDraws();
+    return {
+      games: Object.values(LottoGame).map(game => {
+        const gameDraws = draws.filter(d => d.game === game);
+        return {
+          ...GAME_RULES[game],
+          drawDays: DRAW_SCHEDULES[game].drawDays,
+          schedule: DRAW_SCHEDULES[game].description,
+          archivedDraws: gameDraws.length,
+          firstDate: gameDraws[gameDraws.length - 1]?.date ?? null,
+          lastDate: gameDraws[0]?.date ?? null
+        };
+      })
+    };
+  }
+
+  if (path === '/draws') {
+    const game = parseGame(params.get('game'));
+    const from = parseDateParam(params, 'from');
+    const to = parseDateParam(params, 'to');
+    const draws = (await loadDraws()).filter(d =>
+      (!game || d.game === game) && (!from || d.date >= from) && (!to || d.date <= to)
+    );
+    return { count: draws.length, draws };
+  }
+
+  if (path === '/draws/latest') {
+    const game = parseGame(params.get('game'));
+    const draws = await loadDraws();
+    const latest = (game ? [game] : Object.values(LottoGame))
+      .map(g => draws.find(d => d.game === g))
+      .filter((d): d is DrawResult => !!d);
+    if (game && latest.length === 0) throw new HttpError(404, `No ${game} draws in the archive.`);
+    return { draws: latest };
+  }
+
+  if (path === '/stats/frequency') {
+    const game = parseGame(params.get('game'));
+    const draws = await loadDraws();
+    return { stats: game ? [computeGameStats(game, draws)] : computeAllStats(draws) };
+  }
+
+  throw new HttpError(404, `No route for ${path}. Routes: /games, /draws, /draws/latest, /stats/frequency.`);
+};
+
+const send = (req: IncomingMessage, res: ServerResponse, status: number, body: unknown) => {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash('sha1').update(json).digest('base64url')}"`;
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  if (status === 200) {
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', `public, max-age=${MAX_AGE_SECONDS}`);
+    if (req.headers['if-none-match']?.split(/\s*,\s*/).includes(etag)) {
+      res.writeHead(304).end();
+      return;
+    }
+  } else {
+    res.setHeader('Cache-Control', 'no-store');
+  }
+  res.writeHead(status, { 'Content-Length': Buffer.byteLength(json) });
+  res.end(req.method === 'HEAD' ? undefined : json);
+};
+
+/**
+ * Creates a read-only JSON API over the draw archive file. The server never calls a result
+ * provider; the archive is filled separately with `sa-lotto scrape --append`.
+ */
+export const createApiServer = (archiveFile: string, log: (message: string) => void): Server => {
+  const loadDraws = createArchiveReader(archiveFile, log);
+
+  return createServer(async (req, res) => {
+    try {
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        res.setHeader('Allow', 'GET, HEAD');
+        throw new HttpError(405, `${req.method} is not supported.`);
+      }
+      send(req, res, 200, await route(new URL(req.url || '/', 'http://localhost'), loadDraws));
+    } catch (err: any) {
+      const status = err instanceof HttpError ? err.status : 500;
+      if (status === 500) log(`Error serving ${req.url}: ${err?.message || err}`);
+      send(req, res, status, { error: status === 500 ? 'Internal error.' : err.message });
+    }
+  });
+};
@@ -0,0 +1,17 @@
+import { readFile } from "node:fs/promises";
+import { ImportResult, importDraws } from "../services/drawImport";
+
+/**
+ * Reads a draw file written by `exportDraws`. A missing file reads as empty, so an archive
+ * that has not been scraped into yet is not an error.
+ */
+export const readDrawFile = async (file: string): Promise<ImportResult> => {
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(await readFile(file));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return { draws: [], errors: [] };
+    throw err;
+  }
+  return importDraws(file, bytes);
+};
@@ -0,0 +1,238 @@
+#!/usr/bin/env -S npx tsx
+import { readFile, writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { DrawResult, LottoGame, ResultProvider } from "../types";
+import { geminiProvider } from "../services/geminiService";
+import { createHtmlProvider } from "../services/htmlResultsProvider";
+import { createFixtureProvider, sampleFixtureProvider } from "../services/fixtureProvider";
+import { planRange, scrapeFresh } from "../services/scraper";
+import { EXPORT_FORMATS, ExportFormat, exportDraws } from "../services/drawExport";
+import { detectImportFormat } from "../services/drawImport";
+import { dedupeDrawsWithConflicts } from "../services/drawIdentity";
+import { parseDrawDate } from "../services/drawSchedule";
+import { readDrawFile } from "./drawFile";
+import { createApiServer } from "./apiServer";
+
+/** Every draw was fetched. */
+const EXIT_OK = 0;
+/** Bad arguments or an unrecoverable error. */
+const EXIT_USAGE = 1;
+/** Some requests failed, so the output is missing draws. */
+const EXIT_PARTIAL = 2;
+/** Nothing was found for the range. */
+const EXIT_EMPTY = 3;
+
+/** Archive file shared by `scrape --append` and `serve` when no path is given. */
+const DEFAULT_ARCHIVE = 'sa-lotto-archive.ndjson';
+const DEFAULT_PORT = 8787;
+
+const USAGE = `Usage: sa-lotto scrape --from YYYY-MM-DD --to YYYY-MM-DD [options]
+       sa-lotto serve [--archive <file>] [--port <n>] [--host <address>]
+
+Scrape options:
+  --game <name>         Only this game; repeat for several (default: all games)
+  --format <format>     csv, json, ndjson or xlsx (default: from --out, else csv)
+  --out <file>          Write here instead of stdout (required for xlsx)
+  --append              Merge into an existing --out file without duplicating draws
+  --provider <id>       gemini, html or fixture (default: gemini)
+  --pages <file>        Saved results page for the html provider; repeat for several
+  --fixture <file>      JSON fixture for the fixture provider (default: bundled sample)
+  --concurrency <n>     Requests in flight at once (default: 3)
+  --dry-run             Print the planned requests and exit
+
+Serve options:
+  --archive <file>      Draw file to serve, as written by scrape --append (default: ${DEFAULT_ARCHIVE})
+  --port <n>            Port to listen on (default: ${DEFAULT_PORT})
+  --host <address>      Address to bind (default: 127.0.0.1)
+
+Endpoints: GET /games, /draws?game=&from=&to=, /draws/latest?game=, /stats/frequency?game=
+
+  --help                Show this help
+
+Scrape exit codes: 0 complete, 1 usage or fatal error, 2 partial (some requests failed), 3 empty.
+Reads the Gemini key from GEMINI_API_KEY or API_KEY.`;
+
+class UsageError extends Error {}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const positiveInteger = (value: string | undefined, name: string) => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) throw new UsageError(`${name} must be a positive whole number.`);
+  return n;
+};
+
+const parseCli = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      game: { type: 'string', multiple: true },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      append: { type: 'boolean', default: false },
+      provider: { type: 'string', default: 'gemini' },
+      pages: { type: 'string', multiple: true },
+      fixture: { type: 'string' },
+      concurrency: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      archive: { type: 'string', default: DEFAULT_ARCHIVE },
+      port: { type: 'string' },
+      host: { type: 'string', default: '127.0.0.1' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) return null;
+  if (positionals[0] === 'serve') {
+    return {
+      command: 'serve' as const,
+      archive: values.archive!,
+      port: positiveInteger(values.port, '--port') ?? DEFAULT_PORT,
+      host: values.host!
+    };
+  }
+  if (positionals[0] !== 'scrape') throw new UsageError(`Unknown command "${positionals[0] ?? ''}".`);
+  if (!parseDrawDate(values.from) || !parseDrawDate(values.to)) throw new UsageError("--from and --to must be YYYY-MM-DD dates.");
+  if (values.from! > values.to!) throw new UsageError("--from must not be after --to.");
+
+  const games = (values.game || Object.values(LottoGame)).map(name => {
+    const game = Object.values(LottoGame).find(g => g.toLowerCase() === name.toLowerCase());
+    if (!game) throw new UsageError(`Unknown game "${name}". Games: ${Object.values(LottoGame).join(', ')}.`);
+    return game;
+  });
+
+  const format = (values.format || (values.out && detectImportFormat(values.out)) || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS[format]) throw new UsageError(`Unknown format "${values.format}".`);
+  if (format === 'xlsx' && !values.out) throw new UsageError("xlsx output needs --out.");
+  if (values.append && !values.out) throw new UsageError("--append needs --out.");
+
+  return {
+    command: 'scrape' as const,
+    from: values.from!,
+    to: values.to!,
+    games,
+    format,
+    out: values.out,
+    append: values.append!,
+    provider: values.provider!,
+    pages: values.pages || [],
+    fixture: values.fixture,
+    concurrency: positiveInteger(values.concurrency, '--concurrency'),
+    dryRun: values['dry-run']!
+  };
+};
+
+const loadProvider = async (id: string, pages: string[], fixture?: string): Promise<ResultProvider> => {
+  if (id === 'gemini') return geminiProvider;
+  if (id === 'html') {
+    if (pages.length === 0) throw new UsageError("The html provider needs at least one --pages file.");
+    return createHtmlProvider(await Promise.all(pages.map(async file => ({ name: basename(file), html: await readFile(file, 'utf8') }))));
+  }
+  if (id === 'fixture') {
+    return fixture ? createFixtureProvider(JSON.parse(await readFile(fixture, 'utf8')), basename(fixture)) : sampleFixtureProvider;
+  }
+  throw new UsageError(`Unknown provider "${id}". Providers: gemini, html, fixture.`);
+};
+
+/**
+ * Reads the draws already in the output file for --append. A missing file starts empty.
+ */
+const readExisting = async (file: string): Promise<DrawResult[]> => {
+  const { draws, errors } = await readDrawFile(file);
+  if (errors.length > 0) log(`Skipped ${errors.length} unreadable row(s) in ${file}.`);
+  return draws;
+};
+
+/**
+ * Serves the archive until the process is stopped. Resolves only if the server fails to start.
+ */
+const serve = (archive: string, port: number, host: string) =>
+  new Promise<number>((_, reject) => {
+    const server = createApiServer(archive, log);
+    server.on('error', reject);
+    server.listen(port, host, () => log(`Serving ${archive} on http://${host}:${port}`));
+  });
+
+const main = async (argv: string[]): Promise<number> => {
+  // Assigning undefined to process.env would store the string "undefined"
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+
+  const options = parseCli(argv);
+  if (!options) {
+    log(USAGE);
+    return EXIT_OK;
+  }
+  if (options.command === 'serve') return serve(options.archive, options.port, options.host);
+
+  const provider = await loadProvider(options.provider, options.pages, options.fixture);
+
+  if (options.dryRun) {
+    if (!provider.archived) {
+      log(`${provider.label}: 1 request for ${options.from} to ${options.to} (${options.games.join(', ')}).`);
+      return EXIT_OK;
+    }
+    const chunks = planRange(options.from, options.to, options.games);
+    chunks.forEach((chunk, i) => {
+      process.stdout.write(`${i + 1}\t${chunk.startDate}\t${chunk.endDate}\t${chunk.expectedDraws}\t${chunk.games.join(', ')}\n`);
+    });
+    log(`${chunks.length} request(s) planned, ${chunks.reduce((sum, c) => sum + c.expectedDraws, 0)} draws expected.`);
+    return EXIT_OK;
+  }
+
+  // Ctrl-C stops the remaining requests but still writes whatever arrived
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    log("Cancelling...");
+    controller.abort();
+  });
+
+  const result = await scrapeFresh(
+    provider,
+    options.from,
+    options.to,
+    options.games,
+    (progress, outcome) => {
+      const attempts = outcome.result?.error?.attempts ?? 1;
+      const status = outcome.status === 'failed'
+        ? ` (failed${attempts > 1 ? ` after ${attempts} attempts` : ''}: ${outcome.result?.errorDetail})`
+        : '';
+      log(`Chunk ${progress.completed}/${progress.total}, ${progress.drawCount} draws so far${status}`);
+    },
+    options.concurrency,
+    { signal: controller.signal }
+  );
+  result.rejected.forEach(r => log(`Rejected ${r.draw.game ?? '?'} ${r.draw.date ?? '?'}: ${r.reasons.join(' ')}`));
+
+  let draws = result.draws;
+  if (options.append && options.out) {
+    const merged = dedupeDrawsWithConflicts([...(await readExisting(options.out)), ...draws]);
+    merged.conflicts.forEach(c => log(`${c.game} draw #${c.drawNumber} is claimed by ${c.dates.join(' and ')}; kept neither number.`));
+    draws = merged.draws;
+  }
+
+  const content = exportDraws(draws, options.format);
+  if (options.out) {
+    await writeFile(options.out, content);
+    log(`Wrote ${draws.length} draws to ${options.out}.`);
+  } else {
+    process.stdout.write(content);
+  }
+
+  if (result.errorDetail) log(result.errorDetail);
+  if (result.draws.length === 0) return EXIT_EMPTY;
+  if (result.chunks.some(c => c.status === 'failed') || result.errorDetail) return EXIT_PARTIAL;
+  return EXIT_OK;
+};
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  err => {
+    log(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : `Error: ${err?.message || err}`);
+    process.exit(EXIT_USAGE);
+  }
+);
@@ -0,0 +1,140 @@
+
+import React, { useMemo, useState } from 'react';
+import { AuditBin, AuditTest, DrawResult, GameAudit } from '../types';
+import { auditAllGames, auditVerdict } from '../services/randomnessAudit';
+import { auditReportHtml, formatPValue, formatStatistic, verdictLabel } from '../services/auditReport';
+import { downloadFile } from '../services/download';
+
+interface AuditViewProps {
+  draws: DrawResult[];
+  /** Which draws are being audited, for the printed report's heading. */
+  scope: string;
+}
+
+/** Tests with more bins than this list only their largest deviations. */
+const MAX_LISTED_BINS = 20;
+
+const VERDICT_CLASSES = {
+  consistent: 'bg-emerald-50 text-emerald-700',
+  unusual: 'bg-amber-50 text-amber-700',
+  suspicious: 'bg-red-50 text-red-700',
+  untested: 'bg-slate-100 text-slate-500'
+};
+
+const BinTable: React.FC<{ bins: AuditBin[] }> = ({ bins }) => {
+  const shown = bins.length <= MAX_LISTED_BINS
+    ? bins
+    : [...bins]
+        .sort((a, b) => Math.abs(b.observed - b.expected) / Math.sqrt(b.expected) - Math.abs(a.observed - a.expected) / Math.sqrt(a.expected))
+        .slice(0, 5);
+  return (
+    <table className="text-left text-[11px] tabular-nums">
+      <thead className="text-[10px] uppercase tracking-wider text-slate-400">
+        <tr>
+          <th className="pr-4 py-1 font-bold">{bins.length <= MAX_LISTED_BINS ? 'Category' : 'Furthest from expected'}</th>
+          <th className="pr-4 py-1 font-bold text-right">Observed</th>
+          <th className="py-1 font-bold text-right">Expected</th>
+        </tr>
+      </thead>
+      <tbody>
+        {shown.map(bin => (
+          <tr key={bin.label}>
+            <td className="pr-4 py-0.5 font-bold text-slate-700">{bin.label}</td>
+            <td className="pr-4 py-0.5 text-right text-slate-700">{bin.observed}</td>
+            <td className="py-0.5 text-right text-slate-500">{bin.expected.toFixed(1)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const TestRow: React.FC<{ test: AuditTest }> = ({ test }) => {
+  const [open, setOpen] = useState(false);
+  return (
+    <li className="py-3 space-y-2">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="max-w-xl">
+          <p className="text-sm font-bold text-slate-800">{test.name}</p>
+          <p className="text-xs text-slate-500">{test.description}</p>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <span className="text-slate-500 tabular-nums">{formatStatistic(test)}</span>
+          <span className="font-bold text-slate-800 tabular-nums">p {formatPValue(test.pValue)}</span>
+          <span className={`px-2 py-0.5 rounded-full font-bold ${VERDICT_CLASSES[auditVerdict(test.pValue)]}`}>{verdictLabel(test)}</span>
+          {test.bins.length > 0 && (
+            <button onClick={() => setOpen(!open)} className="text-[10px] font-black uppercase px-2 py-1 rounded text-slate-500 hover:bg-slate-100 transition-colors">
+              {open ? 'Hide' : 'Details'}
+            </button>
+          )}
+        </div>
+      </div>
+      {test.warnings.length > 0 && (
+        <ul className="text-[11px] text-amber-700 space-y-0.5">
+          {test.warnings.map(w => <li key={w}>⚠ {w}</li>)}
+        </ul>
+      )}
+      {open && <BinTable bins={test.bins} />}
+    </li>
+  );
+};
+
+const GameAuditCard: React.FC<{ audit: GameAudit }> = ({ audit }) => (
+  <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+    <header className="flex items-baseline justify-between gap-4">
+      <h3 className="text-lg font-black text-slate-900">{audit.game}</h3>
+      <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+        {audit.drawCount} draw{audit.drawCount === 1 ? '' : 's'}{audit.firstDate && ` · ${audit.firstDate} to ${audit.lastDate}`}
+      </span>
+    </header>
+    <ul className="divide-y divide-slate-100">
+      {audit.tests.map(test => <TestRow key={test.kind} test={test} />)}
+    </ul>
+  </section>
+);
+
+const AuditView: React.FC<AuditViewProps> = ({ draws, scope }) => {
+  const audits = useMemo(() => auditAllGames(draws), [draws]);
+
+  if (audits.length === 0) {
+    return (
+      <div className="p-8 text-center text-slate-500 bg-white rounded-xl shadow-sm">
+        No draws loaded to audit.
+      </div>
+    );
+  }
+
+  // Falls back to downloading the page when the browser blocks the print window
+  const printReport = () => {
+    const html = auditReportHtml(audits, scope);
+    const win = window.open('', '_blank');
+    if (!win) {
+      downloadFile(html, 'text/html;charset=utf-8', `sa_lotto_randomness_audit_${new Date().toISOString().slice(0, 10)}.html`);
+      return;
+    }
+    win.document.write(html);
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 bg-white rounded-xl shadow-sm border border-slate-100 p-4">
+        <p className="text-xs text-slate-500 max-w-2xl">
+          Each p-value is the chance a fair draw would look at least this uneven. With several tests per game,
+          about one in twenty lands below 0.05 by chance alone, so look for results that stay low as more draws are loaded.
+        </p>
+        <button
+          onClick={printReport}
+          className="px-4 py-2 bg-slate-900 text-white font-bold rounded-lg text-xs hover:bg-slate-700 transition-colors"
+        >
+          PRINT REPORT
+        </button>
+      </div>
+      {audits.map(audit => <GameAuditCard key={audit.game} audit={audit} />)}
+    </div>
+  );
+};
+
+export default AuditView;
@@ -0,0 +1,271 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BacktestResult, BacktestStrategy, DrawResult, LottoGame, TicketBoard } from '../types';
+import { GAME_RULES } from '../services/gameRules';
+import { parseBoard } from '../services/ticketChecker';
+import { MAX_WHEEL_BOARDS, wheelSize } from '../services/backtest';
+import { runBacktestInWorker } from '../services/backtestRunner';
+
+interface BacktestPanelProps {
+  draws: DrawResult[];
+  defaultGame?: LottoGame;
+}
+
+type StrategyKind = BacktestStrategy['kind'];
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+const inputClass = 'mt-1 w-full rounded-lg border border-slate-200 text-sm p-2 bg-white';
+
+const formatRand = (amount: number) => `R ${amount.toLocaleString('en-ZA', { maximumFractionDigits: 2 })}`;
+
+const newSeed = () => Math.floor(Math.random() * 1e9);
+
+const StrategyToggle: React.FC<{ label: string; enabled: boolean; onToggle: () => void; children?: React.ReactNode }> = ({
+  label,
+  enabled,
+  onToggle,
+  children
+}) => (
+  <div className={`p-3 rounded-lg border ${enabled ? 'border-amber-300 bg-amber-50/40' : 'border-slate-100'}`}>
+    <label className="flex items-center gap-2 text-sm font-bold text-slate-800">
+      <input type="checkbox" checked={enabled} onChange={onToggle} />
+      {label}
+    </label>
+    {enabled && children && <div className="mt-2">{children}</div>}
+  </div>
+);
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ draws, defaultGame = LottoGame.LOTTO }) => {
+  const [game, setGame] = useState<LottoGame>(defaultGame);
+  const [enabled, setEnabled] = useState<Record<StrategyKind, boolean>>({
+    fixed: false, 'quick-pick': true, hot: true, cold: true, wheel: false
+  });
+  const [fixedText, setFixedText] = useState('');
+  const [quickPicks, setQuickPicks] = useState('1');
+  const [hotWindow, setHotWindow] = useState('20');
+  const [coldWindow, setColdWindow] = useState('20');
+  const [wheelText, setWheelText] = useState('');
+  const [wheelPowerBall, setWheelPowerBall] = useState('');
+  const [seed, setSeed] = useState(() => newSeed());
+  const [priceText, setPriceText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const rules = GAME_RULES[game];
+  const gameDrawCount = draws.filter(d => d.game === game).length;
+
+  // A worker left running would answer for settings no longer on screen
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const buildStrategies = (): { strategies: BacktestStrategy[]; problems: string[] } => {
+    const strategies: BacktestStrategy[] = [];
+    const problems: string[] = [];
+    const positive = (text: string, label: string) => {
+      const value = Number(text);
+      if (!Number.isInteger(value) || value < 1) problems.push(`${label} must be a whole number of at least 1.`);
+      return value;
+    };
+
+    if (enabled.fixed) {
+      const boards: TicketBoard[] = [];
+      const lines = fixedText.split('\n').map(l => l.trim()).filter(Boolean);
+      if (lines.length === 0) problems.push("Enter at least one fixed board.");
+      lines.forEach((line, i) => {
+        const parsed = parseBoard(line, game);
+        if (parsed.board) boards.push(parsed.board);
+        else problems.push(`Fixed board ${i + 1}: ${parsed.errors.join(' ')}`);
+      });
+      strategies.push({ kind: 'fixed', boards });
+    }
+    if (enabled['quick-pick']) strategies.push({ kind: 'quick-pick', boards: positive(quickPicks, 'Quick picks per draw') });
+    if (enabled.hot) strategies.push({ kind: 'hot', window: positive(hotWindow, 'The hot window') });
+    if (enabled.cold) strategies.push({ kind: 'cold', window: positive(coldWindow, 'The cold window') });
+    if (enabled.wheel) {
+      const numbers = [...new Set<number>((wheelText.match(/\d+/g) || []).map(Number))];
+      if (numbers.length < rules.ballCount) problems.push(`A wheel needs at least ${rules.ballCount} numbers.`);
+      if (numbers.some(n => n < rules.minNumber || n > rules.maxNumber)) {
+        problems.push(`Wheel numbers must be ${rules.minNumber}-${rules.maxNumber}.`);
+      }
+      if (wheelSize(game, numbers) > MAX_WHEEL_BOARDS) {
+        problems.push(`That wheel plays ${wheelSize(game, numbers).toLocaleString()} boards a draw; the limit is ${MAX_WHEEL_BOARDS}.`);
+      }
+      const powerBall = wheelPowerBall.trim() ? Number(wheelPowerBall) : undefined;
+      if (powerBall !== undefined && (powerBall < rules.bonusMin || powerBall > rules.bonusMax)) {
+        problems.push(`The wheel's PowerBall must be ${rules.bonusMin}-${rules.bonusMax}.`);
+      }
+      strategies.push({ kind: 'wheel', numbers, powerBall: rules.bonus === 'powerBall' ? powerBall : undefined });
+    }
+    if (strategies.length === 0) problems.push("Choose at least one strategy.");
+    return { strategies, problems };
+  };
+
+  const run = async () => {
+    const { strategies, problems } = buildStrategies();
+    const boardPrice = priceText.trim() ? Number(priceText) : undefined;
+    if (boardPrice !== undefined && !(boardPrice > 0)) problems.push("The board price must be more than zero.");
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    try {
+      setResult(await runBacktestInWorker(draws, { game, strategies, seed, boardPrice }, controller.signal));
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') setErrors([err?.message || "The backtest failed."]);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  const toggle = (kind: StrategyKind) => setEnabled(prev => ({ ...prev, [kind]: !prev[kind] }));
+
+  const divisions = rules.divisions.map(d => d.division);
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-slate-100 p-6 space-y-6">
+      <div className="grid gap-4 md:grid-cols-4 items-end">
+        <label className="block">
+          <span className={labelClass}>Game</span>
+          <select value={game} onChange={(e) => setGame(e.target.value as LottoGame)} className={inputClass}>
+            {Object.values(LottoGame).map(g => <option key={g} value={g}>{g}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className={labelClass}>Board Price (R)</span>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={priceText}
+            onChange={(e) => setPriceText(e.target.value)}
+            placeholder={String(rules.boardPrice)}
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className={labelClass}>Seed</span>
+          <div className="flex gap-2">
+            <input type="number" value={seed} onChange={(e) => setSeed(Number(e.target.value) || 0)} className={inputClass} />
+            <button onClick={() => setSeed(newSeed())} title="New random seed" className="mt-1 px-3 rounded-lg border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50">
+              ↻
+            </button>
+          </div>
+        </label>
+        <button
+          onClick={run}
+          disabled={running || gameDrawCount === 0}
+          className={`
+            px-6 py-2 bg-amber-500 text-slate-900 font-bold rounded-lg text-sm hover:bg-amber-400 transition-all shadow-[0_4px_0_0_rgb(180,83,9)] active:shadow-none active:translate-y-[4px]
+            ${running || gameDrawCount === 0 ? 'opacity-50 cursor-not-allowed' : ''}
+          `}
+        >
+          {running ? 'RUNNING…' : `BACKTEST ${gameDrawCount} DRAWS`}
+        </button>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <StrategyToggle enabled={enabled['fixed']} onToggle={() => toggle('fixed')} label="Fixed boards">
+          <textarea
+            value={fixedText}
+            onChange={(e) => setFixedText(e.target.value)}
+            rows={3}
+            placeholder="One board per line"
+            className={`${inputClass} font-mono`}
+          />
+        </StrategyToggle>
+        <StrategyToggle enabled={enabled['quick-pick']} onToggle={() => toggle('quick-pick')} label="Quick pick">
+          <label className="block">
+            <span className={labelClass}>Boards per draw</span>
+            <input type="number" min="1" value={quickPicks} onChange={(e) => setQuickPicks(e.target.value)} className={inputClass} />
+          </label>
+        </StrategyToggle>
+        <StrategyToggle enabled={enabled['hot']} onToggle={() => toggle('hot')} label="Hot numbers">
+          <label className="block">
+            <span className={labelClass}>From the previous N draws</span>
+            <input type="number" min="1" value={hotWindow} onChange={(e) => setHotWindow(e.target.value)} className={inputClass} />
+          </label>
+        </StrategyToggle>
+        <StrategyToggle enabled={enabled['cold']} onToggle={() => toggle('cold')} label="Cold numbers">
+          <label className="block">
+            <span className={labelClass}>From the previous N draws</span>
+            <input type="number" min="1" value={coldWindow} onChange={(e) => setColdWindow(e.target.value)} className={inputClass} />
+          </label>
+        </StrategyToggle>
+        <StrategyToggle enabled={enabled['wheel']} onToggle={() => toggle('wheel')} label="Full wheel">
+          <div className="grid gap-2 grid-cols-[1fr_auto]">
+            <label className="block">
+              <span className={labelClass}>Numbers</span>
+              <input value={wheelText} onChange={(e) => setWheelText(e.target.value)} placeholder="3 9 14 22 31 40 47" className={`${inputClass} font-mono`} />
+            </label>
+            {rules.bonus === 'powerBall' && (
+              <label className="block w-24">
+                <span className={labelClass}>PowerBall</span>
+                <input type="number" value={wheelPowerBall} onChange={(e) => setWheelPowerBall(e.target.value)} placeholder="random" className={inputClass} />
+              </label>
+            )}
+          </div>
+        </StrategyToggle>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-1">
+          {errors.map((err, i) => <li key={i}>{err}</li>)}
+        </ul>
+      )}
+
+      {result && (
+        <section className="space-y-3">
+          <p className="text-xs text-slate-500">
+            {result.game} · {result.drawCount} draws{result.firstDate ? ` from ${result.firstDate} to ${result.lastDate}` : ''} · {formatRand(result.boardPrice)} a board · seed {result.seed}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="text-[10px] uppercase tracking-wider text-slate-400">
+                <tr>
+                  <th className="py-2 pr-4 font-bold">Strategy</th>
+                  <th className="py-2 pr-4 font-bold text-right">Boards</th>
+                  <th className="py-2 pr-4 font-bold text-right">Spend</th>
+                  <th className="py-2 pr-4 font-bold text-right">Winnings</th>
+                  <th className="py-2 pr-4 font-bold text-right">Net</th>
+                  <th className="py-2 pr-4 font-bold text-right">ROI</th>
+                  {divisions.map(d => <th key={d} className="py-2 px-1 font-bold text-right">Div {d}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {result.strategies.map((s, i) => (
+                  <tr key={i}>
+                    <td className="py-2 pr-4 font-bold text-slate-800">
+                      {s.label}
+                      {s.unpricedWins > 0 && (
+                        <div className="text-[10px] font-medium text-amber-600">{s.unpricedWins} win{s.unpricedWins === 1 ? '' : 's'} without a published payout</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-right tabular-nums">{s.boardsPlayed.toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums">{formatRand(s.spend)}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums">{formatRand(s.winnings)}</td>
+                    <td className={`py-2 pr-4 text-right tabular-nums font-bold ${s.net >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatRand(s.net)}</td>
+                    <td className={`py-2 pr-4 text-right tabular-nums font-bold ${s.roi >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {(s.roi * 100).toFixed(1)}%
+                    </td>
+                    {divisions.map(d => (
+                      <td key={d} className="py-2 px-1 text-right tabular-nums text-slate-600">{s.hits[d] || '·'}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
@@ -0,0 +1,77 @@
+
+import React, { useState } from 'react';
+import { CoverageReport } from '../types';
+import { DRAW_SCHEDULES } from '../services/drawSchedule';
+
+interface CoveragePanelProps {
+  report: CoverageReport;
+}
+
+const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-ZA', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+const CoveragePanel: React.FC<CoveragePanelProps> = ({ report }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const expected = report.games.reduce((sum, g) => sum + g.expectedCount, 0);
+  const found = report.games.reduce((sum, g) => sum + g.foundCount, 0);
+  const unexpected = report.games.reduce((sum, g) => sum + g.unexpectedDates.length, 0);
+  const complete = found === expected && unexpected === 0;
+
+  if (expected === 0 && unexpected === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-xl shadow-sm border border-slate-100">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs font-bold text-slate-500 uppercase tracking-widest flex items-center gap-3">
+          <span className={`inline-block w-1.5 h-1.5 rounded-full ${complete ? 'bg-emerald-500' : 'bg-amber-500'}`}></span>
+          Coverage {found}/{expected} draws
+          {unexpected > 0 && <span className="text-red-600">{unexpected} off-schedule</span>}
+        </p>
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className="text-[10px] font-black uppercase px-2 py-1 rounded text-slate-500 hover:bg-slate-100 transition-colors"
+        >
+          {expanded ? 'Hide gaps' : 'Show gaps'}
+        </button>
+      </div>
+
+      {expanded && (
+        <table className="mt-3 w-full text-left text-xs border-t border-slate-100">
+          <tbody className="divide-y divide-slate-100">
+            {report.games.map(g => (
+              <tr key={g.game} className="align-top">
+                <td className="py-2 pr-4 whitespace-nowrap">
+                  <p className="font-bold text-slate-700">{g.game}</p>
+                  <p className="text-slate-400">{DRAW_SCHEDULES[g.game].description}</p>
+                </td>
+                <td className="py-2 pr-4 whitespace-nowrap tabular-nums font-bold text-slate-600">
+                  {g.foundCount}/{g.expectedCount}
+                </td>
+                <td className="py-2">
+                  <div className="flex flex-wrap gap-1">
+                    {g.missingDates.map(date => (
+                      <span key={date} className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 font-medium">
+                        {formatShortDate(date)}
+                      </span>
+                    ))}
+                    {g.unexpectedDates.map(date => (
+                      <span key={date} title="Result on a date with no draw" className="px-2 py-0.5 rounded-full bg-red-50 text-red-700 font-medium">
+                        {formatShortDate(date)} ?
+                      </span>
+                    ))}
+                    {g.missingDates.length === 0 && g.unexpectedDates.length === 0 && (
+                      <span className="text-emerald-600 font-bold">Complete</span>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default CoveragePanel;
@@ -0,0 +1,89 @@
+
+import React, { useMemo } from 'react';
+import { DrawHighlight, DrawResult, LottoGame } from '../types';
+import { groupDrawNights } from '../services/drawNights';
+import LottoBall from './LottoBall';
+
+interface DrawNightViewProps {
+  draws: DrawResult[];
+  /** Balls matched by the user's tickets, keyed by draw id. */
+  highlights?: Record<string, DrawHighlight>;
+}
+
+const GameResult: React.FC<{ draw: DrawResult; highlight?: DrawHighlight }> = ({ draw, highlight }) => (
+  <div className="p-4 rounded-lg bg-slate-50 border border-slate-100 flex flex-col gap-3">
+    <p className="text-xs font-black text-slate-700 uppercase tracking-wider">{draw.game}</p>
+    <div className="flex flex-wrap gap-2 items-center">
+      {draw.numbers.map((n, idx) => (
+        <LottoBall key={idx} number={n} highlighted={highlight?.numbers.includes(n)} />
+      ))}
+      {draw.bonusBall && (
+        <div className="flex items-center gap-1">
+          <span className="text-xs font-bold text-slate-400">+</span>
+          <LottoBall number={draw.bonusBall} type="bonus" highlighted={highlight?.bonusMatched} />
+        </div>
+      )}
+      {draw.powerBall && (
+        <div className="flex items-center gap-1">
+          <span className="text-xs font-bold text-slate-400">PB</span>
+          <LottoBall number={draw.powerBall} type="powerball" highlighted={highlight?.bonusMatched} />
+        </div>
+      )}
+    </div>
+    <p className="text-sm font-medium text-slate-900 tabular-nums">
+      {draw.jackpotAmount ? `R ${draw.jackpotAmount.toLocaleString()}` : '—'}
+      {draw.rollover && <span className="ml-2 text-[10px] font-bold uppercase text-amber-600">Rollover</span>}
+    </p>
+  </div>
+);
+
+const MissingResult: React.FC<{ game: LottoGame }> = ({ game }) => (
+  <div className="p-4 rounded-lg border-2 border-dashed border-amber-200 bg-amber-50/50 flex flex-col gap-1 justify-center">
+    <p className="text-xs font-black text-slate-500 uppercase tracking-wider">{game}</p>
+    <p className="text-xs text-amber-700">Drawn this night, but no result was found.</p>
+  </div>
+);
+
+/**
+ * One card per draw night, with every linked game's result side by side.
+ */
+const DrawNightView: React.FC<DrawNightViewProps> = ({ draws, highlights = {} }) => {
+  const nights = useMemo(() => groupDrawNights(draws), [draws]);
+
+  if (nights.length === 0) {
+    return (
+      <div className="p-8 text-center text-slate-500 bg-white rounded-xl shadow-sm">
+        No draws found for the selected criteria.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {nights.map(night => (
+        <section key={`${night.games[0]}|${night.date}`} className="bg-white rounded-xl shadow-sm border border-slate-100 p-5">
+          <header className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+            <h3 className="text-sm font-black text-slate-900">
+              {new Date(night.date).toLocaleDateString('en-ZA', { weekday: 'long', year: 'numeric', month: 'short', day: 'numeric' })}
+              <span className="ml-2 text-xs font-bold text-slate-400 uppercase tracking-wider">{night.games.join(' · ')}</span>
+            </h3>
+            {night.missing.length > 0 && (
+              <span className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-amber-50 text-amber-700">
+                {night.missing.length} result{night.missing.length === 1 ? '' : 's'} missing
+              </span>
+            )}
+          </header>
+          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+            {night.games.map(game => {
+              const draw = night.draws[game];
+              if (draw) return <GameResult key={game} draw={draw} highlight={highlights[draw.id]} />;
+              return night.missing.includes(game) ? <MissingResult key={game} game={game} /> : null;
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default DrawNightView;
@@ -0,0 +1,96 @@
+
+import React, { useState } from 'react';
+import { DrawQuery } from '../types';
+import { DEFAULT_DRAW_QUERY, parseDrawSearch } from '../services/drawQuery';
+
+interface DrawQueryBarProps {
+  query: DrawQuery;
+  onChange: (query: DrawQuery) => void;
+  /** Rows matching the query, and rows before it was applied. */
+  shown: number;
+  total: number;
+}
+
+const inputClass = 'rounded-lg border border-slate-200 text-sm p-2 bg-white';
+
+/** Rand in millions as typed into a jackpot box; blank means no bound. */
+const toRand = (millions: string) => (millions.trim() === '' || isNaN(Number(millions)) ? undefined : Number(millions) * 1e6);
+
+const DrawQueryBar: React.FC<DrawQueryBarProps> = ({ query, onChange, shown, total }) => {
+  const [search, setSearch] = useState('');
+  const [minJackpot, setMinJackpot] = useState('');
+  const [maxJackpot, setMaxJackpot] = useState('');
+
+  const updateSearch = (text: string) => {
+    setSearch(text);
+    onChange({ ...query, ...parseDrawSearch(text) });
+  };
+
+  const updateJackpot = (min: string, max: string) => {
+    setMinJackpot(min);
+    setMaxJackpot(max);
+    onChange({ ...query, minJackpot: toRand(min), maxJackpot: toRand(max) });
+  };
+
+  const clear = () => {
+    setSearch('');
+    setMinJackpot('');
+    setMaxJackpot('');
+    onChange({ ...DEFAULT_DRAW_QUERY, games: query.games, sort: query.sort });
+  };
+
+  const narrowed = shown !== total;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-white rounded-xl shadow-sm border border-slate-100 p-3">
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => updateSearch(e.target.value)}
+        placeholder="Search numbers or dates, e.g. 7 and 23"
+        aria-label="Search draws by number or date"
+        className={`${inputClass} flex-1 min-w-[220px]`}
+      />
+      <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        Jackpot R
+        <input
+          type="number"
+          min="0"
+          value={minJackpot}
+          onChange={(e) => updateJackpot(e.target.value, maxJackpot)}
+          placeholder="min"
+          className={`${inputClass} w-20`}
+        />
+        –
+        <input
+          type="number"
+          min="0"
+          value={maxJackpot}
+          onChange={(e) => updateJackpot(minJackpot, e.target.value)}
+          placeholder="max"
+          className={`${inputClass} w-20`}
+        />
+        million
+      </label>
+      <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!query.officialOnly}
+          onChange={(e) => onChange({ ...query, officialOnly: e.target.checked || undefined })}
+          className="rounded border-slate-300"
+        />
+        Official sources only
+      </label>
+      <span className="text-xs font-bold text-slate-500 tabular-nums">
+        {narrowed ? `${shown} of ${total} draws` : `${total} draws`}
+      </span>
+      {narrowed && (
+        <button onClick={clear} className="text-[10px] font-black uppercase px-2 py-1 rounded text-slate-500 hover:bg-slate-100 transition-colors">
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DrawQueryBar;
@@ -1,83 +1,357 @@
 
-import React from 'react';
-import { DrawResult } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DrawHighlight, DrawProvenance, DrawQuery, DrawResult, DrawSortKey, ReconciledDraw } from '../types';
+import { GAME_RULES, drawKey } from '../services/gameRules';
+import { DEFAULT_DRAW_QUERY, applyDrawQuery } from '../services/drawQuery';
 import LottoBall from './LottoBall';
+import DrawQueryBar from './DrawQueryBar';
 
 interface DrawTableProps {
   draws: DrawResult[];
-  filter: string;
+  /** Which draws to show and how to order them. Defaults to every draw, newest first. */
+  query?: DrawQuery;
+  /** Makes the headers sortable and adds the search bar; changes come back through here. */
+  onQueryChange?: (query: DrawQuery) => void;
+  /** Re-fetches every game's result for the given date, replacing the archived copy. */
+  onRefreshDate?: (date: string) => void;
+  /** Balls matched by the user's tickets, keyed by draw id. */
+  highlights?: Record<string, DrawHighlight>;
+  /** Cross-source verification, keyed by game and date. Omit to hide the badges. */
+  verification?: Record<string, ReconciledDraw>;
+  /** Syndicate wallet tickets held against each draw, keyed by game and date. */
+  ticketCounts?: Record<string, number>;
 }
 
-const DrawTable: React.FC<DrawTableProps> = ({ draws, filter }) => {
-  const filteredDraws = filter === 'All' 
-    ? draws 
-    : draws.filter(d => d.game === filter);
+// Draws that were never part of a fetch snapshot, such as those read from the archive, get no badge
+const VerificationBadge: React.FC<{ entry?: ReconciledDraw }> = ({ entry }) => {
+  if (!entry) return null;
+  if (entry.status === 'agreed') {
+    return <span title={`Matched across ${entry.versions.length} fetches`} className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-emerald-50 text-emerald-700">✓ Verified</span>;
+  }
+  if (entry.status === 'conflicting') {
+    return entry.chosenLabel
+      ? <span title={`Resolved using ${entry.chosenLabel}`} className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-blue-50 text-blue-700">Resolved</span>
+      : <span title={`Sources disagree on ${entry.diffs.map(d => d.field).join(', ')}`} className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-red-50 text-red-700">Conflict</span>;
+  }
+  return <span title="Only one fetch returned this draw" className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-slate-100 text-slate-500">1 source</span>;
+};
+
+const ProvenanceBadge: React.FC<{ provenance: DrawProvenance }> = ({ provenance }) => {
+  const percent = `${Math.round(provenance.confidence * 100)}%`;
+  if (provenance.sources.length === 0) {
+    return <span title="No source was cited for this draw" className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-slate-100 text-slate-500">Unsourced</span>;
+  }
+  const title = `Confidence ${percent} from ${provenance.sources.map(s => s.title).join(', ')}`;
+  return provenance.official
+    ? <span title={title} className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-emerald-50 text-emerald-700">Official · {percent}</span>
+    : <span title={title} className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-amber-50 text-amber-700">Unofficial · {percent}</span>;
+};
+
+const formatRand = (amount: number) => `R ${amount.toLocaleString('en-ZA', { maximumFractionDigits: 2 })}`;
+
+/**
+ * The prize breakdown for one draw, listing every division of the game even if the source skipped some.
+ */
+const DivisionBreakdown: React.FC<{ draw: DrawResult }> = ({ draw }) => {
+  const rules = GAME_RULES[draw.game];
+  const bonusLabel = rules.bonus === 'powerBall' ? 'PB' : 'Bonus';
+
+  return (
+    <div className="px-6 py-4 bg-slate-50 text-xs">
+      <p className="flex flex-wrap gap-4 mb-3 font-bold text-slate-500 uppercase tracking-widest">
+        {draw.drawNumber !== undefined && <span>Draw #{draw.drawNumber}</span>}
+        {draw.rollover !== undefined && (
+          <span className={draw.rollover ? 'text-amber-600' : 'text-emerald-600'}>{draw.rollover ? 'Rollover' : 'Jackpot won'}</span>
+        )}
+        {draw.nextJackpotAmount !== undefined && <span>Next jackpot {formatRand(draw.nextJackpotAmount)}</span>}
+      </p>
+      {draw.provenance && draw.provenance.sources.length > 0 && (
+        <p className="mb-3 text-slate-500">
+          Sources:{' '}
+          {draw.provenance.sources.map((source, i) => (
+            <React.Fragment key={source.uri}>
+              {i > 0 && ', '}
+              <a href={source.uri} target="_blank" rel="noopener noreferrer" className="font-bold text-blue-600 hover:underline">{source.title}</a>
+            </React.Fragment>
+          ))}
+        </p>
+      )}
+      {draw.divisions && draw.divisions.length > 0 ? (
+        <table className="w-full max-w-lg text-left">
+          <thead className="text-[10px] uppercase tracking-wider text-slate-400">
+            <tr>
+              <th className="pr-4 py-1 font-bold">Division</th>
+              <th className="pr-4 py-1 font-bold">Match</th>
+              <th className="pr-4 py-1 font-bold text-right">Winners</th>
+              <th className="py-1 font-bold text-right">Payout per winner</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rules.divisions.map(rule => {
+              const payout = draw.divisions!.find(d => d.division === rule.division);
+              return (
+                <tr key={rule.division}>
+                  <td className="pr-4 py-1 font-bold text-slate-700">{rule.division}</td>
+                  <td className="pr-4 py-1 text-slate-600">{rule.mainMatches}{rule.bonusRequired ? ` + ${bonusLabel}` : ''}</td>
+                  <td className="pr-4 py-1 text-right tabular-nums text-slate-700">{payout ? payout.winners.toLocaleString() : '—'}</td>
+                  <td className="py-1 text-right tabular-nums font-medium text-slate-900">{payout?.payout !== undefined ? formatRand(payout.payout) : '—'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-slate-400">No division payouts were published with this result.</p>
+      )}
+    </div>
+  );
+};
+
+/** Estimated heights used to place rows before they are rendered. */
+const ROW_HEIGHT = 77;
+const BREAKDOWN_HEIGHT = 280;
+/** Rows rendered beyond each edge of the viewport so fast scrolling does not show gaps. */
+const OVERSCAN = 10;
+const DEFAULT_VIEWPORT = 720;
 
-  if (filteredDraws.length === 0) {
-    return (
-      <div className="p-8 text-center text-slate-500 bg-white rounded-xl shadow-sm">
-        No draws found for the selected criteria.
+const SortHeader: React.FC<{
+  label: string;
+  sortKey: DrawSortKey;
+  query: DrawQuery;
+  onQueryChange?: (query: DrawQuery) => void;
+  align?: 'left' | 'right';
+}> = ({ label, sortKey, query, onQueryChange, align = 'left' }) => {
+  const active = query.sort.key === sortKey;
+  const className = `px-6 py-4 font-semibold ${align === 'right' ? 'text-right' : ''}`;
+  if (!onQueryChange) return <th className={className}>{label}</th>;
+
+  const toggle = () => onQueryChange({
+    ...query,
+    sort: { key: sortKey, direction: active && query.sort.direction === 'desc' ? 'asc' : 'desc' }
+  });
+  return (
+    <th className={className} aria-sort={active ? (query.sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}>
+      <button onClick={toggle} className={`uppercase tracking-wider hover:text-slate-900 ${active ? 'text-slate-900' : ''}`}>
+        {label}
+        <span className="ml-1 text-[10px]">{active ? (query.sort.direction === 'asc' ? '▲' : '▼') : ''}</span>
+      </button>
+    </th>
+  );
+};
+
+interface DrawRowProps {
+  draw: DrawResult;
+  expanded: boolean;
+  onToggle: () => void;
+  onRefreshDate?: (date: string) => void;
+  highlight?: DrawHighlight;
+  verification?: Record<string, ReconciledDraw>;
+  ticketCount?: number;
+}
+
+const DrawRow: React.FC<DrawRowProps> = ({ draw, expanded, onToggle, onRefreshDate, highlight, verification, ticketCount }) => (
+  <tr className="hover:bg-slate-50 transition-colors">
+    <td className="pl-4 py-4">
+      <button
+        onClick={onToggle}
+        title={expanded ? 'Hide prize divisions' : 'Show prize divisions'}
+        className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transition-transform ${expanded ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+      </button>
+    </td>
+    <td className="px-6 py-4 text-slate-600 whitespace-nowrap">
+      {new Date(draw.date).toLocaleDateString('en-ZA', { 
+        weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' 
+      })}
+      {draw.drawNumber !== undefined && (
+        <div className="text-[10px] font-bold text-slate-400">Draw #{draw.drawNumber}</div>
+      )}
+    </td>
+    <td className="px-6 py-4">
+      <span className={`
+        px-3 py-1 rounded-full text-xs font-bold
+        ${draw.game.includes('PowerBall') ? 'bg-red-100 text-red-700' : 
+          draw.game.includes('Daily') ? 'bg-emerald-100 text-emerald-700' : 
+          'bg-amber-100 text-amber-700'}
+      `}>
+        {draw.game}
+      </span>
+      {(verification || draw.provenance || !!ticketCount) && (
+        <div className="mt-1 flex items-center gap-1">
+          {verification && <VerificationBadge entry={verification[drawKey(draw)]} />}
+          {draw.provenance && <ProvenanceBadge provenance={draw.provenance} />}
+          {!!ticketCount && (
+            <span className="text-[10px] font-black uppercase px-1.5 py-0.5 rounded bg-blue-50 text-blue-700" title="Syndicate wallet tickets covering this draw">
+              {ticketCount} ticket{ticketCount === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+      )}
+    </td>
+    <td className="px-6 py-4">
+      <div className="flex flex-wrap gap-2 items-center">
+        {draw.numbers.map((n, idx) => (
+          <LottoBall key={idx} number={n} highlighted={highlight?.numbers.includes(n)} />
+        ))}
+        {draw.bonusBall && (
+          <div className="flex items-center gap-1">
+            <span className="text-xs font-bold text-slate-400">+</span>
+            <LottoBall number={draw.bonusBall} type="bonus" highlighted={highlight?.bonusMatched} />
+          </div>
+        )}
+        {draw.powerBall && (
+          <div className="flex items-center gap-1">
+            <span className="text-xs font-bold text-slate-400">PB</span>
+            <LottoBall number={draw.powerBall} type="powerball" highlighted={highlight?.bonusMatched} />
+          </div>
+        )}
       </div>
-    );
+    </td>
+    <td className="px-6 py-4 text-right font-medium text-slate-900 tabular-nums">
+      {draw.jackpotAmount ? 
+        `R ${draw.jackpotAmount.toLocaleString()}` : 
+        '—'}
+      {draw.rollover && (
+        <div className="text-[10px] font-bold uppercase text-amber-600">Rollover</div>
+      )}
+    </td>
+    {onRefreshDate && (
+      <td className="px-2 py-4 text-right">
+        <button
+          onClick={() => onRefreshDate(draw.date)}
+          title={`Refresh all results for ${draw.date}`}
+          className="p-1.5 rounded-lg text-slate-300 hover:text-amber-600 hover:bg-amber-50 transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        </button>
+      </td>
+    )}
+  </tr>
+);
+
+/** Index of the first row whose bottom edge is below `y`, given each row's top offset. */
+const rowAt = (tops: number[], y: number) => {
+  let low = 0;
+  let high = tops.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (tops[mid + 1] <= y) low = mid + 1;
+    else high = mid;
   }
+  return low;
+};
+
+/**
+ * Draws matching `query`, in its order. Only the rows near the visible part of the scroll area are
+ * rendered, with spacer rows standing in for the rest, so ranges of thousands of draws stay quick.
+ * With `onQueryChange` the headers sort and a search bar narrows the rows.
+ */
+const DrawTable: React.FC<DrawTableProps> = ({
+  draws,
+  query = DEFAULT_DRAW_QUERY,
+  onQueryChange,
+  onRefreshDate,
+  highlights = {},
+  verification,
+  ticketCounts
+}) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(DEFAULT_VIEWPORT);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const rows = useMemo(() => applyDrawQuery(draws, query), [draws, query]);
+
+  // tops[i] is where row i starts; the extra last entry is the full height
+  const tops = useMemo(() => {
+    const offsets = [0];
+    rows.forEach(draw => {
+      offsets.push(offsets[offsets.length - 1] + ROW_HEIGHT + (expanded.has(draw.id) ? BREAKDOWN_HEIGHT : 0));
+    });
+    return offsets;
+  }, [rows, expanded]);
+
+  // A new query shows its first rows rather than wherever the old list was scrolled to
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [query]);
+
+  const onScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+    setViewportHeight(e.currentTarget.clientHeight || DEFAULT_VIEWPORT);
+  };
+
+  const columnCount = onRefreshDate ? 6 : 5;
+  const first = Math.max(0, rowAt(tops, scrollTop) - OVERSCAN);
+  const last = Math.min(rows.length, rowAt(tops, scrollTop + viewportHeight) + 1 + OVERSCAN);
+  const totalHeight = tops[tops.length - 1];
 
   return (
-    <div className="overflow-x-auto bg-white rounded-xl shadow-sm border border-slate-100">
-      <table className="w-full text-left border-collapse">
-        <thead className="bg-slate-50 text-slate-600 text-sm uppercase tracking-wider">
-          <tr>
-            <th className="px-6 py-4 font-semibold">Date</th>
-            <th className="px-6 py-4 font-semibold">Game</th>
-            <th className="px-6 py-4 font-semibold">Winning Numbers</th>
-            <th className="px-6 py-4 font-semibold text-right">Estimated Jackpot</th>
-          </tr>
-        </thead>
-        <tbody className="divide-y divide-slate-100">
-          {filteredDraws.map((draw) => (
-            <tr key={draw.id} className="hover:bg-slate-50 transition-colors">
-              <td className="px-6 py-4 text-slate-600 whitespace-nowrap">
-                {new Date(draw.date).toLocaleDateString('en-ZA', { 
-                  weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' 
-                })}
-              </td>
-              <td className="px-6 py-4">
-                <span className={`
-                  px-3 py-1 rounded-full text-xs font-bold
-                  ${draw.game.includes('PowerBall') ? 'bg-red-100 text-red-700' : 
-                    draw.game.includes('Daily') ? 'bg-emerald-100 text-emerald-700' : 
-                    'bg-amber-100 text-amber-700'}
-                `}>
-                  {draw.game}
-                </span>
-              </td>
-              <td className="px-6 py-4">
-                <div className="flex flex-wrap gap-2 items-center">
-                  {draw.numbers.map((n, idx) => (
-                    <LottoBall key={idx} number={n} />
-                  ))}
-                  {draw.bonusBall && (
-                    <div className="flex items-center gap-1">
-                      <span className="text-xs font-bold text-slate-400">+</span>
-                      <LottoBall number={draw.bonusBall} type="bonus" />
-                    </div>
-                  )}
-                  {draw.powerBall && (
-                    <div className="flex items-center gap-1">
-                      <span className="text-xs font-bold text-slate-400">PB</span>
-                      <LottoBall number={draw.powerBall} type="powerball" />
-                    </div>
+    <div className="space-y-3">
+      {onQueryChange && <DrawQueryBar query={query} onChange={onQueryChange} shown={rows.length} total={draws.length} />}
+      {rows.length === 0 ? (
+        <div className="p-8 text-center text-slate-500 bg-white rounded-xl shadow-sm">
+          No draws found for the selected criteria.
+        </div>
+      ) : (
+        <div
+          ref={scrollRef}
+          onScroll={onScroll}
+          className="overflow-auto max-h-[75vh] bg-white rounded-xl shadow-sm border border-slate-100"
+        >
+          <table className="w-full text-left border-collapse">
+            <thead className="sticky top-0 z-10 bg-slate-50 text-slate-600 text-sm uppercase tracking-wider">
+              <tr>
+                <th className="pl-4 py-4"></th>
+                <SortHeader label="Date" sortKey="date" query={query} onQueryChange={onQueryChange} />
+                <SortHeader label="Game" sortKey="game" query={query} onQueryChange={onQueryChange} />
+                <th className="px-6 py-4 font-semibold">Winning Numbers</th>
+                <SortHeader label="Estimated Jackpot" sortKey="jackpot" query={query} onQueryChange={onQueryChange} align="right" />
+                {onRefreshDate && <th className="px-2 py-4"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {first > 0 && <tr aria-hidden style={{ height: tops[first] }}></tr>}
+              {rows.slice(first, last).map((draw) => (
+                <React.Fragment key={draw.id}>
+                  <DrawRow
+                    draw={draw}
+                    expanded={expanded.has(draw.id)}
+                    onToggle={() => toggleExpanded(draw.id)}
+                    onRefreshDate={onRefreshDate}
+                    highlight={highlights[draw.id]}
+                    verification={verification}
+                    ticketCount={ticketCounts?.[drawKey(draw)]}
+                  />
+                  {expanded.has(draw.id) && (
+                    <tr>
+                      <td colSpan={columnCount} className="p-0">
+                        <DivisionBreakdown draw={draw} />
+                      </td>
+                    </tr>
                   )}
-                </div>
-              </td>
-              <td className="px-6 py-4 text-right font-medium text-slate-900 tabular-nums">
-                {draw.jackpotAmount ? 
-                  `R ${draw.jackpotAmount.toLocaleString()}` : 
-                  '—'}
-              </td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
+                </React.Fragment>
+              ))}
+              {last < rows.length && <tr aria-hidden style={{ height: totalHeight - tops[last] }}></tr>}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
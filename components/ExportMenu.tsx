@@ -0,0 +1,73 @@
+
+import React, { useState } from 'react';
+import { EXPORT_FORMATS, ExportFormat } from '../services/drawExport';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  onImport: (file: File) => void;
+  canExport: boolean;
+  disabled?: boolean;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, onImport, canExport, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const exportDisabled = disabled || !canExport;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="relative flex gap-2">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        disabled={exportDisabled}
+        className={`
+          px-4 py-2 bg-slate-700 text-white font-bold rounded-lg text-sm
+          hover:bg-slate-600 transition-all shadow-[0_4px_0_0_rgb(51,65,85)] active:shadow-none active:translate-y-[4px] flex items-center gap-2
+          ${exportDisabled ? 'opacity-50 cursor-not-allowed' : ''}
+        `}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        <span className="hidden sm:inline">EXPORT</span>
+      </button>
+      {open && !exportDisabled && (
+        <div className="absolute right-0 top-full mt-3 z-40 w-44 bg-white rounded-lg shadow-xl border border-slate-200 py-1">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => {
+                setOpen(false);
+                onExport(format);
+              }}
+              className="w-full text-left px-4 py-2 text-xs font-bold text-slate-700 hover:bg-slate-50"
+            >
+              {EXPORT_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <label
+        title="Import CSV, JSON, NDJSON or XLSX"
+        className={`
+          px-4 py-2 bg-slate-700 text-white font-bold rounded-lg text-sm cursor-pointer
+          hover:bg-slate-600 transition-all shadow-[0_4px_0_0_rgb(51,65,85)] active:shadow-none active:translate-y-[4px] flex items-center gap-2
+          ${disabled ? 'opacity-50 pointer-events-none' : ''}
+        `}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+        </svg>
+        <span className="hidden sm:inline">IMPORT</span>
+        <input type="file" accept=".csv,.json,.ndjson,.jsonl,.xlsx" onChange={handleFile} className="hidden" />
+      </label>
+    </div>
+  );
+};
+
+export default ExportMenu;
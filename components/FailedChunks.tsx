@@ -0,0 +1,51 @@
+
+import React from 'react';
+import { ChunkOutcome, ScrapeChunk } from '../services/scrapePlanner';
+
+interface FailedChunksProps {
+  failed: ChunkOutcome[];
+  /** Id of the chunk currently being retried, if any. */
+  retrying: string | null;
+  onRetry: (chunk: ScrapeChunk) => void;
+}
+
+const FailedChunks: React.FC<FailedChunksProps> = ({ failed, retrying, onRetry }) => {
+  if (failed.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-xl shadow-sm border border-red-100">
+      <h3 className="text-xs font-bold text-red-600 uppercase tracking-widest mb-3">
+        {failed.length} Failed Request{failed.length === 1 ? '' : 's'}
+      </h3>
+      <ul className="divide-y divide-slate-100">
+        {failed.map(({ chunk, result }) => (
+          <li key={chunk.id} className="py-2 flex items-center justify-between gap-4 text-xs">
+            <div>
+              <p className="font-bold text-slate-700">
+                {chunk.games.join(', ')} · {chunk.startDate === chunk.endDate ? chunk.startDate : `${chunk.startDate} to ${chunk.endDate}`}
+              </p>
+              <p className="text-slate-400">
+                {result?.errorDetail}
+                {result?.error && result.error.attempts > 1 && ` Tried ${result.error.attempts} times.`}
+              </p>
+            </div>
+            <button
+              onClick={() => onRetry(chunk)}
+              disabled={retrying !== null}
+              className={`
+                px-3 py-1.5 bg-slate-900 text-white font-bold rounded-lg text-[10px] uppercase tracking-wider
+                hover:bg-slate-700 transition-colors flex items-center gap-2 shrink-0
+                ${retrying !== null ? 'opacity-50 cursor-not-allowed' : ''}
+              `}
+            >
+              {retrying === chunk.id && <div className="w-3 h-3 border-2 border-white border-t-transparent animate-spin rounded-full"></div>}
+              Retry
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default FailedChunks;
@@ -0,0 +1,42 @@
+
+import React from 'react';
+import { ImportRowError } from '../services/drawImport';
+
+interface ImportReportProps {
+  fileName: string;
+  importedCount: number;
+  errors: ImportRowError[];
+  onDismiss: () => void;
+}
+
+const ImportReport: React.FC<ImportReportProps> = ({ fileName, importedCount, errors, onDismiss }) => (
+  <div className="mb-6 p-4 bg-white rounded-xl shadow-sm border border-slate-100">
+    <div className="flex items-center justify-between gap-4">
+      <p className="text-xs font-bold text-slate-500 uppercase tracking-widest flex flex-wrap items-center gap-3">
+        <span>Imported {fileName}</span>
+        <span className="text-emerald-600">{importedCount} draws loaded</span>
+        <span className={errors.length > 0 ? 'text-red-600' : 'text-slate-400'}>{errors.length} rows rejected</span>
+      </p>
+      <button
+        onClick={onDismiss}
+        className="text-[10px] font-black uppercase px-2 py-1 rounded text-slate-500 hover:bg-slate-100 transition-colors"
+      >
+        Dismiss
+      </button>
+    </div>
+    {errors.length > 0 && (
+      <ul className="mt-3 divide-y divide-slate-100 border-t border-slate-100 max-h-64 overflow-y-auto">
+        {errors.map((err, i) => (
+          <li key={i} className="py-2 text-xs flex gap-4">
+            <span className="font-bold text-slate-700 whitespace-nowrap min-w-[120px]">
+              {err.row === 0 ? 'File' : `${err.sheet ? `${err.sheet} · ` : ''}Row ${err.row}`}
+            </span>
+            <span className="text-red-600">{err.reasons.join(' ')}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default ImportReport;
@@ -0,0 +1,166 @@
+
+import React, { useMemo } from 'react';
+import { DrawResult, JackpotHistory, JackpotOutcome, RolloverStreak } from '../types';
+import { computeAllJackpotHistories } from '../services/jackpotHistory';
+
+interface JackpotViewProps {
+  draws: DrawResult[];
+}
+
+const WIDTH = 720;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 16, bottom: 24, left: 64 };
+
+const OUTCOME_COLOURS: Record<JackpotOutcome, string> = {
+  rollover: '#f59e0b',
+  won: '#10b981',
+  unknown: '#94a3b8'
+};
+
+const OUTCOME_LABELS: Record<JackpotOutcome, string> = {
+  rollover: 'Rolled over',
+  won: 'Won',
+  unknown: 'Unknown'
+};
+
+const formatRand = (amount: number) => `R ${amount.toLocaleString('en-ZA', { maximumFractionDigits: 0 })}`;
+
+const formatShortRand = (amount: number) =>
+  amount >= 1e6 ? `R${(amount / 1e6).toFixed(1)}m` : amount >= 1e3 ? `R${Math.round(amount / 1e3)}k` : `R${amount}`;
+
+const streakLabel = (streak: RolloverStreak | null) =>
+  streak ? `${streak.length} draw${streak.length === 1 ? '' : 's'}` : '—';
+
+const JackpotChart: React.FC<{ history: JackpotHistory }> = ({ history }) => {
+  const { points, projection } = history;
+  const slots = points.length + (projection ? 1 : 0);
+  const maxAmount = Math.max(1, ...points.map(p => p.amount), projection?.amount ?? 0);
+
+  const x = (i: number) => PAD.left + (slots <= 1 ? 0.5 : i / (slots - 1)) * (WIDTH - PAD.left - PAD.right);
+  const y = (amount: number) => PAD.top + (1 - amount / maxAmount) * (HEIGHT - PAD.top - PAD.bottom);
+  const last = points.length - 1;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${history.game} jackpot history`}>
+      {[0, 0.5, 1].map(f => (
+        <g key={f}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(maxAmount * f)} y2={y(maxAmount * f)} stroke="#e2e8f0" />
+          <text x={PAD.left - 8} y={y(maxAmount * f) + 4} textAnchor="end" className="fill-slate-400 text-[10px]">
+            {formatShortRand(maxAmount * f)}
+          </text>
+        </g>
+      ))}
+      <polyline
+        points={points.map((p, i) => `${x(i)},${y(p.amount)}`).join(' ')}
+        fill="none"
+        stroke="#334155"
+        strokeWidth={2}
+        strokeLinejoin="round"
+      />
+      {projection && last >= 0 && (
+        <g>
+          <line
+            x1={x(last)} y1={y(points[last].amount)} x2={x(last + 1)} y2={y(projection.amount)}
+            stroke="#334155" strokeWidth={2} strokeDasharray="4 4"
+          />
+          <circle cx={x(last + 1)} cy={y(projection.amount)} r={5} fill="white" stroke="#334155" strokeWidth={2}>
+            <title>{`${projection.date}: ${formatRand(projection.amount)} (${projection.basis})`}</title>
+          </circle>
+        </g>
+      )}
+      {points.map((p, i) => (
+        <circle key={p.date} cx={x(i)} cy={y(p.amount)} r={4} fill={OUTCOME_COLOURS[p.outcome]}>
+          <title>{`${p.date}${p.drawNumber ? ` · Draw ${p.drawNumber}` : ''}: ${formatRand(p.amount)} · ${OUTCOME_LABELS[p.outcome]}`}</title>
+        </circle>
+      ))}
+      {points.length > 0 && (
+        <>
+          <text x={x(0)} y={HEIGHT - 6} textAnchor="start" className="fill-slate-400 text-[10px]">{points[0].date}</text>
+          <text x={x(slots - 1)} y={HEIGHT - 6} textAnchor="end" className="fill-slate-400 text-[10px]">
+            {projection ? projection.date : points[last].date}
+          </text>
+        </>
+      )}
+    </svg>
+  );
+};
+
+const Figure: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="min-w-[140px]">
+    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{label}</p>
+    <p className="text-sm font-bold text-slate-900 tabular-nums">{value}</p>
+    {detail && <p className="text-[10px] text-slate-400">{detail}</p>}
+  </div>
+);
+
+const JackpotCard: React.FC<{ history: JackpotHistory }> = ({ history }) => {
+  const latest = history.points[history.points.length - 1];
+  const peak = history.points.reduce((best, p) => (p.amount > best.amount ? p : best), latest);
+  const wins = history.points.filter(p => p.outcome === 'won').length;
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6 space-y-6">
+      <header className="flex items-baseline justify-between gap-4">
+        <h3 className="text-lg font-black text-slate-900">{history.game}</h3>
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+          {history.points.length} draw{history.points.length === 1 ? '' : 's'} · {wins} won
+        </span>
+      </header>
+
+      <div className="flex flex-wrap gap-6">
+        <Figure label="Latest" value={formatRand(latest.amount)} detail={latest.date} />
+        <Figure label="Peak" value={formatRand(peak.amount)} detail={peak.date} />
+        <Figure
+          label="Longest Rollover Streak"
+          value={streakLabel(history.longestStreak)}
+          detail={history.longestStreak ? `${history.longestStreak.from} to ${history.longestStreak.to}` : undefined}
+        />
+        <Figure label="Current Streak" value={streakLabel(history.currentStreak)} />
+        <Figure
+          label="Next Draw"
+          value={history.projection ? formatRand(history.projection.amount) : '—'}
+          detail={history.projection
+            ? `${history.projection.date} · ${history.projection.basis === 'announced' ? 'Announced' : 'Estimated'}`
+            : 'Not enough history to estimate'}
+        />
+      </div>
+
+      <JackpotChart history={history} />
+
+      <div className="flex flex-wrap gap-4 text-[10px] font-bold uppercase tracking-wider text-slate-500">
+        {(Object.keys(OUTCOME_COLOURS) as JackpotOutcome[]).map(outcome => (
+          <span key={outcome} className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: OUTCOME_COLOURS[outcome] }}></span>
+            {OUTCOME_LABELS[outcome]}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="w-2.5 h-2.5 rounded-full border-2 border-slate-700 bg-white"></span>
+          Projected
+        </span>
+      </div>
+    </section>
+  );
+};
+
+const JackpotView: React.FC<JackpotViewProps> = ({ draws }) => {
+  const histories = useMemo(() => computeAllJackpotHistories(draws), [draws]);
+
+  if (histories.length === 0) {
+    return (
+      <div className="p-8 text-center text-slate-500 bg-white rounded-xl shadow-sm">
+        No jackpot amounts loaded to chart.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {histories.map(history => (
+        <JackpotCard key={history.game} history={history} />
+      ))}
+    </div>
+  );
+};
+
+export default JackpotView;
@@ -4,9 +4,10 @@ import React from 'react';
 interface LottoBallProps {
   number: number;
   type?: 'standard' | 'bonus' | 'powerball';
+  highlighted?: boolean;
 }
 
-const LottoBall: React.FC<LottoBallProps> = ({ number, type = 'standard' }) => {
+const LottoBall: React.FC<LottoBallProps> = ({ number, type = 'standard', highlighted = false }) => {
   const bgColor = {
     standard: 'bg-yellow-400 border-yellow-500 text-slate-900',
     bonus: 'bg-blue-500 border-blue-600 text-white',
@@ -19,6 +20,7 @@ const LottoBall: React.FC<LottoBallProps> = ({ number, type = 'standard' }) => {
       rounded-full flex items-center justify-center 
       font-bold text-sm md:text-base border-2 shadow-sm
       ${bgColor}
+      ${highlighted ? 'ring-4 ring-emerald-400 ring-offset-1' : ''}
       transition-transform hover:scale-110
     `}>
       {number}
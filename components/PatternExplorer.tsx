@@ -0,0 +1,214 @@
+
+import React, { useMemo, useState } from 'react';
+import { CombinationCount, DrawHighlight, DrawPattern, DrawQuery, DrawResult, FeatureBreakdown, LottoGame } from '../types';
+import { DEFAULT_DRAW_QUERY } from '../services/drawQuery';
+import { coOccurrence, featureBreakdowns, patternLabel, topCombinations } from '../services/drawPatterns';
+import DrawTable from './DrawTable';
+
+interface PatternExplorerProps {
+  draws: DrawResult[];
+  defaultGame?: LottoGame;
+  highlights?: Record<string, DrawHighlight>;
+}
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+/** Heatmap cell size and the margin left for axis labels, in SVG units. */
+const CELL = 10;
+const AXIS = 20;
+
+const samePattern = (a: DrawPattern | undefined, b: DrawPattern) =>
+  !!a && JSON.stringify(a) === JSON.stringify(b);
+
+const Heatmap: React.FC<{
+  numbers: number[];
+  counts: number[][];
+  selected?: DrawPattern;
+  onSelect: (pattern: DrawPattern) => void;
+}> = ({ numbers, counts, selected, onSelect }) => {
+  const max = Math.max(1, ...counts.flatMap((row, i) => row.filter((_, j) => j !== i)));
+  const size = AXIS + numbers.length * CELL;
+  const isSelected = (a: number, b: number) =>
+    selected?.kind === 'combination' && selected.numbers.length === 2 && selected.numbers.includes(a) && selected.numbers.includes(b);
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-full max-w-2xl" role="img" aria-label="How often each pair of balls was drawn together">
+      {numbers.map((n, i) => (n % 5 === 0 || i === 0) && (
+        <React.Fragment key={n}>
+          <text x={AXIS + i * CELL + CELL / 2} y={AXIS - 6} textAnchor="middle" className="fill-slate-400" fontSize={7}>{n}</text>
+          <text x={AXIS - 4} y={AXIS + i * CELL + CELL / 2 + 2.5} textAnchor="end" className="fill-slate-400" fontSize={7}>{n}</text>
+        </React.Fragment>
+      ))}
+      {counts.map((row, i) => row.map((count, j) => {
+        const [a, b] = [numbers[i], numbers[j]];
+        if (i === j) {
+          return <rect key={`${i}-${j}`} x={AXIS + j * CELL} y={AXIS + i * CELL} width={CELL} height={CELL} className="fill-slate-200" />;
+        }
+        return (
+          <rect
+            key={`${i}-${j}`}
+            x={AXIS + j * CELL}
+            y={AXIS + i * CELL}
+            width={CELL}
+            height={CELL}
+            fill={`rgba(245, 158, 11, ${count / max})`}
+            stroke={isSelected(a, b) ? '#0f172a' : '#fff'}
+            strokeWidth={isSelected(a, b) ? 1.5 : 0.5}
+            className="cursor-pointer"
+            onClick={() => onSelect({ kind: 'combination', numbers: [Math.min(a, b), Math.max(a, b)] })}
+          >
+            <title>{`${Math.min(a, b)} & ${Math.max(a, b)}: drawn together ${count} time${count === 1 ? '' : 's'}`}</title>
+          </rect>
+        );
+      }))}
+    </svg>
+  );
+};
+
+const CombinationList: React.FC<{
+  title: string;
+  combos: CombinationCount[];
+  selected?: DrawPattern;
+  onSelect: (pattern: DrawPattern) => void;
+}> = ({ title, combos, selected, onSelect }) => (
+  <div className="flex-1 min-w-[240px]">
+    <h4 className={`${labelClass} mb-2`}>{title}</h4>
+    {combos.length === 0 ? (
+      <p className="text-xs text-slate-400">Not enough draws.</p>
+    ) : (
+      <ol className="space-y-1">
+        {combos.map(combo => {
+          const pattern: DrawPattern = { kind: 'combination', numbers: combo.numbers };
+          return (
+            <li key={combo.numbers.join('-')}>
+              <button
+                onClick={() => onSelect(pattern)}
+                className={`w-full flex items-center justify-between gap-3 px-2 py-1 rounded-lg text-left transition-colors ${samePattern(selected, pattern) ? 'bg-amber-100' : 'hover:bg-slate-50'}`}
+              >
+                <span className="flex gap-1">
+                  {combo.numbers.map(n => (
+                    <span key={n} className="w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold bg-yellow-400 border-2 border-yellow-500 text-slate-900">{n}</span>
+                  ))}
+                </span>
+                <span className="text-xs tabular-nums text-slate-600">
+                  <span className="font-bold text-slate-900">{combo.count}×</span> · {combo.expected.toFixed(1)} expected
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    )}
+  </div>
+);
+
+const FeatureCard: React.FC<{
+  breakdown: FeatureBreakdown;
+  total: number;
+  selected?: DrawPattern;
+  onSelect: (pattern: DrawPattern) => void;
+}> = ({ breakdown, total, selected, onSelect }) => {
+  const max = Math.max(1, ...breakdown.buckets.map(b => b.count));
+  return (
+    <div className="p-3 rounded-lg border border-slate-100">
+      <h4 className={`${labelClass} mb-2`}>{breakdown.label}</h4>
+      <ul className="space-y-0.5">
+        {breakdown.buckets.map(({ bucket, count }) => {
+          const pattern: DrawPattern = { kind: 'feature', feature: breakdown.feature, bucket };
+          return (
+            <li key={bucket}>
+              <button
+                onClick={() => onSelect(pattern)}
+                className={`w-full grid grid-cols-[7rem_1fr_4rem] items-center gap-2 px-1 py-0.5 rounded text-xs text-left transition-colors ${samePattern(selected, pattern) ? 'bg-amber-100' : 'hover:bg-slate-50'}`}
+              >
+                <span className="font-bold text-slate-700 truncate">{bucket}</span>
+                <span className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <span className="block h-full bg-amber-500" style={{ width: `${(count / max) * 100}%` }}></span>
+                </span>
+                <span className="text-right tabular-nums text-slate-500">{Math.round((count / total) * 100)}%</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+const PatternExplorer: React.FC<PatternExplorerProps> = ({ draws, defaultGame, highlights }) => {
+  const games = Object.values(LottoGame).filter(g => draws.some(d => d.game === g));
+  const [chosenGame, setChosenGame] = useState<LottoGame | undefined>(defaultGame);
+  const [query, setQuery] = useState<DrawQuery>(DEFAULT_DRAW_QUERY);
+  const game = chosenGame && games.includes(chosenGame) ? chosenGame : games[0];
+
+  const gameDraws = useMemo(() => draws.filter(d => d.game === game), [draws, game]);
+  const matrix = useMemo(() => (game ? coOccurrence(game, gameDraws) : null), [game, gameDraws]);
+  const pairs = useMemo(() => (game ? topCombinations(game, gameDraws, 2) : []), [game, gameDraws]);
+  const triples = useMemo(() => (game ? topCombinations(game, gameDraws, 3) : []), [game, gameDraws]);
+  const features = useMemo(() => (game ? featureBreakdowns(game, gameDraws) : []), [game, gameDraws]);
+
+  if (!game || !matrix) {
+    return (
+      <div className="p-8 text-center text-slate-500 bg-white rounded-xl shadow-sm">
+        No draws loaded to explore.
+      </div>
+    );
+  }
+
+  const select = (pattern: DrawPattern) =>
+    setQuery({ ...query, pattern: samePattern(query.pattern, pattern) ? undefined : pattern });
+
+  const chooseGame = (next: LottoGame) => {
+    setChosenGame(next);
+    setQuery({ ...query, pattern: undefined });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-6 space-y-6">
+        <header className="flex flex-wrap items-center justify-between gap-4">
+          <label className="flex items-center gap-3">
+            <span className={labelClass}>Game</span>
+            <select value={game} onChange={(e) => chooseGame(e.target.value as LottoGame)} className="rounded-lg border border-slate-200 text-sm p-2 bg-white">
+              {games.map(g => <option key={g} value={g}>{g}</option>)}
+            </select>
+          </label>
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+            {gameDraws.length} draw{gameDraws.length === 1 ? '' : 's'} · click a cell, combination or bucket to list its draws
+          </span>
+        </header>
+
+        <div>
+          <h4 className={`${labelClass} mb-2`}>Pairs drawn together</h4>
+          <Heatmap numbers={matrix.numbers} counts={matrix.counts} selected={query.pattern} onSelect={select} />
+        </div>
+
+        <div className="flex flex-wrap gap-6">
+          <CombinationList title="Most frequent pairs" combos={pairs} selected={query.pattern} onSelect={select} />
+          <CombinationList title="Most frequent triples" combos={triples} selected={query.pattern} onSelect={select} />
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+          {features.map(breakdown => (
+            <FeatureCard key={breakdown.feature} breakdown={breakdown} total={gameDraws.length} selected={query.pattern} onSelect={select} />
+          ))}
+        </div>
+      </div>
+
+      {query.pattern && (
+        <div className="flex items-center gap-3">
+          <span className="px-3 py-1 rounded-full text-xs font-bold bg-amber-100 text-amber-800">{patternLabel(query.pattern)}</span>
+          <button
+            onClick={() => setQuery({ ...query, pattern: undefined })}
+            className="text-[10px] font-black uppercase px-2 py-1 rounded text-slate-500 hover:bg-slate-100 transition-colors"
+          >
+            Show all
+          </button>
+        </div>
+      )}
+      <DrawTable draws={gameDraws} query={query} onQueryChange={setQuery} highlights={highlights} />
+    </div>
+  );
+};
+
+export default PatternExplorer;
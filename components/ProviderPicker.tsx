@@ -0,0 +1,55 @@
+
+import React from 'react';
+
+export type ProviderId = 'gemini' | 'html' | 'fixture';
+
+interface ProviderPickerProps {
+  value: ProviderId;
+  onChange: (id: ProviderId) => void;
+  /** Names of the files currently loaded for the selected offline provider. */
+  loadedFiles: string[];
+  onFilesLoaded: (files: { name: string; text: string }[]) => void;
+  disabled?: boolean;
+}
+
+const PROVIDER_OPTIONS: { id: ProviderId; label: string; accept?: string }[] = [
+  { id: 'gemini', label: 'Gemini Search' },
+  { id: 'html', label: 'Saved Pages', accept: '.html,.htm' },
+  { id: 'fixture', label: 'Fixture JSON', accept: '.json' }
+];
+
+const ProviderPicker: React.FC<ProviderPickerProps> = ({ value, onChange, loadedFiles, onFilesLoaded, disabled }) => {
+  const option = PROVIDER_OPTIONS.find(o => o.id === value)!;
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    onFilesLoaded(await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() }))));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex items-center gap-2 bg-slate-800 p-1 rounded-lg border border-slate-700 shadow-inner">
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as ProviderId)}
+        disabled={disabled}
+        className="bg-transparent text-[10px] font-black uppercase border-none focus:ring-0 cursor-pointer px-2 py-1 text-slate-300"
+      >
+        {PROVIDER_OPTIONS.map(o => (
+          <option key={o.id} value={o.id} className="text-slate-900">{o.label}</option>
+        ))}
+      </select>
+      {option.accept && (
+        <label
+          title={loadedFiles.length > 0 ? loadedFiles.join(', ') : undefined}
+          className="text-[10px] font-black uppercase px-2 py-1 rounded hover:bg-slate-700 text-amber-400 transition-colors cursor-pointer whitespace-nowrap"
+        >
+          {loadedFiles.length > 0 ? `${loadedFiles.length} file${loadedFiles.length === 1 ? '' : 's'}` : value === 'fixture' ? 'Sample data' : 'Load files'}
+          <input type="file" accept={option.accept} multiple={value === 'html'} onChange={handleFiles} className="hidden" />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ProviderPicker;
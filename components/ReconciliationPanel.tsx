@@ -0,0 +1,95 @@
+
+import React from 'react';
+import { DrawResult, ReconciledDraw, ReconciledField } from '../types';
+
+interface ReconciliationPanelProps {
+  reconciled: ReconciledDraw[];
+  snapshotCount: number;
+  onCrossCheck: () => void;
+  onChoose: (entry: ReconciledDraw, label: string) => void;
+  disabled?: boolean;
+}
+
+const FIELD_LABELS: Record<ReconciledField, string> = {
+  numbers: 'Numbers',
+  bonusBall: 'Bonus',
+  powerBall: 'PowerBall',
+  jackpotAmount: 'Jackpot'
+};
+
+const formatValue = (value: DrawResult[ReconciledField]) => {
+  if (value === undefined || value === null) return '—';
+  if (Array.isArray(value)) return value.join(' ');
+  return value.toLocaleString();
+};
+
+const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ reconciled, snapshotCount, onCrossCheck, onChoose, disabled }) => {
+  const agreed = reconciled.filter(r => r.status === 'agreed').length;
+  const conflicts = reconciled.filter(r => r.status === 'conflicting');
+  const single = reconciled.filter(r => r.status === 'single-source').length;
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-xl shadow-sm border border-slate-100">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs font-bold text-slate-500 uppercase tracking-widest flex flex-wrap items-center gap-3">
+          <span>{snapshotCount} fetch{snapshotCount === 1 ? '' : 'es'} compared</span>
+          <span className="text-emerald-600">{agreed} agreed</span>
+          <span className={conflicts.length > 0 ? 'text-red-600' : 'text-slate-400'}>{conflicts.length} conflicting</span>
+          <span className="text-slate-400">{single} single-source</span>
+        </p>
+        <button
+          onClick={onCrossCheck}
+          disabled={disabled}
+          className={`
+            text-[10px] font-black uppercase px-3 py-1.5 rounded-lg bg-slate-900 text-white hover:bg-slate-700 transition-colors shrink-0
+            ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+          `}
+        >
+          Cross-check range
+        </button>
+      </div>
+
+      {conflicts.length > 0 && (
+        <ul className="mt-3 divide-y divide-slate-100 border-t border-slate-100">
+          {conflicts.map(entry => (
+            <li key={entry.key} className="py-3 text-xs">
+              <p className="font-bold text-slate-700 mb-2">
+                {entry.game} · {entry.date}
+                {entry.chosenLabel && <span className="ml-2 text-emerald-600">Resolved: {entry.chosenLabel}</span>}
+              </p>
+              <table className="w-full text-left">
+                <thead className="text-[10px] uppercase tracking-wider text-slate-400">
+                  <tr>
+                    <th className="pr-4 py-1 font-bold">Source</th>
+                    {entry.diffs.map(diff => <th key={diff.field} className="pr-4 py-1 font-bold">{FIELD_LABELS[diff.field]}</th>)}
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entry.versions.map(version => (
+                    <tr key={version.label} className={entry.chosenLabel === version.label ? 'bg-emerald-50' : ''}>
+                      <td className="pr-4 py-1 font-medium text-slate-600 whitespace-nowrap">{version.label}</td>
+                      {entry.diffs.map(diff => (
+                        <td key={diff.field} className="pr-4 py-1 font-mono text-red-700">{formatValue(version.draw[diff.field])}</td>
+                      ))}
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={() => onChoose(entry, version.label)}
+                          className="text-[10px] font-black uppercase px-2 py-1 rounded text-slate-500 hover:bg-slate-100 transition-colors"
+                        >
+                          Use this
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ReconciliationPanel;
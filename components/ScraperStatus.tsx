@@ -0,0 +1,89 @@
+
+import React from 'react';
+import { ScrapeError, ScrapeErrorKind } from '../types';
+
+interface ScraperStatusProps {
+  message: string;
+  /** The classified cause, when the provider reported one. */
+  error?: ScrapeError | null;
+  onRetry: () => void;
+  onUseSampleData: () => void;
+  disabled?: boolean;
+}
+
+const GUIDANCE: Record<ScrapeErrorKind, { title: string; hint: string; action: 'retry' | 'sample' }> = {
+  'missing-key': {
+    title: 'API key missing',
+    hint: 'Set GEMINI_API_KEY and restart, or switch to saved pages or the sample fixture.',
+    action: 'sample'
+  },
+  'rate-limit': {
+    title: 'Rate limited',
+    hint: 'The Gemini quota is used up for now. Wait before retrying, or narrow the date range.',
+    action: 'retry'
+  },
+  network: {
+    title: 'Connection problem',
+    hint: 'Check your connection and retry. Draws already archived are kept.',
+    action: 'retry'
+  },
+  truncated: {
+    title: 'Response cut short',
+    hint: 'The reply ended before every draw arrived. Retry, or choose a shorter date range.',
+    action: 'retry'
+  },
+  schema: {
+    title: 'Unreadable response',
+    hint: 'The reply was not in the expected shape. Retrying usually helps.',
+    action: 'retry'
+  },
+  empty: {
+    title: 'No results returned',
+    hint: 'Nothing came back for the range. Results may not be published yet; retry later or try another provider.',
+    action: 'retry'
+  },
+  cancelled: {
+    title: 'Cancelled',
+    hint: 'Draws that arrived before cancelling were kept. Retry to fetch the rest.',
+    action: 'retry'
+  }
+};
+
+const formatWait = (ms: number) => (ms >= 60000 ? `${Math.ceil(ms / 60000)} min` : `${Math.ceil(ms / 1000)} s`);
+
+const ScraperStatus: React.FC<ScraperStatusProps> = ({ message, error, onRetry, onUseSampleData, disabled }) => {
+  const guidance = error ? GUIDANCE[error.kind] : null;
+
+  return (
+    <div className="mb-6 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl flex items-start gap-3 animate-in slide-in-from-top-4 duration-300">
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mt-0.5 text-amber-600" viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+      </svg>
+      <div className="flex-1">
+        <p className="text-sm font-bold">{guidance ? `Scraper Status · ${guidance.title}` : 'Scraper Status'}</p>
+        <p className="text-xs">{message}</p>
+        {error && guidance && (
+          <p className="text-xs mt-1 text-amber-700">
+            {error.attempts > 1 ? `Tried ${error.attempts} times. ` : 'Not retried. '}
+            {error.retryAfterMs !== undefined && `Gemini asked to wait ${formatWait(error.retryAfterMs)}. `}
+            {guidance.hint}
+          </p>
+        )}
+      </div>
+      {guidance && (
+        <button
+          onClick={guidance.action === 'sample' ? onUseSampleData : onRetry}
+          disabled={disabled}
+          className={`
+            text-[10px] font-black uppercase px-3 py-1.5 rounded-lg bg-amber-600 text-white hover:bg-amber-500 transition-colors shrink-0
+            ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+          `}
+        >
+          {guidance.action === 'sample' ? 'Use sample data' : 'Retry'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ScraperStatus;
@@ -0,0 +1,101 @@
+
+import React, { useMemo } from 'react';
+import { DrawResult, GameStats, NumberStat } from '../types';
+import { computeAllStats } from '../services/drawStats';
+import { GAME_RULES } from '../services/gameRules';
+import LottoBall from './LottoBall';
+
+interface StatsViewProps {
+  draws: DrawResult[];
+}
+
+const sinceLabel = (stat: NumberStat) => stat.drawsSinceSeen === null ? 'never' : `${stat.drawsSinceSeen} ago`;
+
+const FrequencyGrid: React.FC<{ stats: NumberStat[]; type: 'standard' | 'bonus' | 'powerball' }> = ({ stats, type }) => {
+  const maxCount = Math.max(1, ...stats.map(s => s.count));
+  return (
+    <div className="grid grid-cols-[repeat(auto-fill,minmax(4.5rem,1fr))] gap-2">
+      {stats.map(stat => (
+        <div key={stat.number} className="flex flex-col items-center gap-1 p-2 rounded-lg bg-slate-50 border border-slate-100">
+          <LottoBall number={stat.number} type={type} />
+          <div className="w-full h-1 bg-slate-200 rounded-full overflow-hidden">
+            <div className="h-full bg-amber-500" style={{ width: `${(stat.count / maxCount) * 100}%` }}></div>
+          </div>
+          <span className="text-xs font-bold text-slate-700 tabular-nums">{stat.count}×</span>
+          <span className={`text-[10px] font-medium tabular-nums ${stat.drawsSinceSeen === null ? 'text-red-500' : 'text-slate-400'}`}>
+            {sinceLabel(stat)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const HotColdList: React.FC<{ title: string; stats: NumberStat[]; accent: string }> = ({ title, stats, accent }) => (
+  <div className="flex-1 min-w-[240px]">
+    <h4 className={`text-[10px] font-black uppercase tracking-widest mb-2 ${accent}`}>{title}</h4>
+    <div className="flex flex-wrap gap-3">
+      {stats.map(stat => (
+        <div key={stat.number} className="flex flex-col items-center gap-1">
+          <LottoBall number={stat.number} />
+          <span className="text-[10px] font-bold text-slate-500 tabular-nums">{stat.count}×</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const GameStatsCard: React.FC<{ stats: GameStats }> = ({ stats }) => {
+  const rules = GAME_RULES[stats.game];
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6 space-y-6">
+      <header className="flex items-baseline justify-between gap-4">
+        <h3 className="text-lg font-black text-slate-900">{stats.game}</h3>
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+          {stats.drawCount} draw{stats.drawCount === 1 ? '' : 's'} · {rules.ballCount} from {rules.minNumber}-{rules.maxNumber}
+        </span>
+      </header>
+
+      <div className="flex flex-wrap gap-6">
+        <HotColdList title="Hot" stats={stats.hot} accent="text-red-600" />
+        <HotColdList title="Cold" stats={stats.cold} accent="text-blue-600" />
+      </div>
+
+      <div>
+        <h4 className="text-[10px] font-black uppercase tracking-widest mb-2 text-slate-400">Main Ball Frequency & Draws Since Last Seen</h4>
+        <FrequencyGrid stats={stats.main} type="standard" />
+      </div>
+
+      {stats.bonus.length > 0 && (
+        <div>
+          <h4 className="text-[10px] font-black uppercase tracking-widest mb-2 text-slate-400">
+            {rules.bonus === 'powerBall' ? 'PowerBall' : 'Bonus Ball'} Frequency
+          </h4>
+          <FrequencyGrid stats={stats.bonus} type={rules.bonus === 'powerBall' ? 'powerball' : 'bonus'} />
+        </div>
+      )}
+    </section>
+  );
+};
+
+const StatsView: React.FC<StatsViewProps> = ({ draws }) => {
+  const allStats = useMemo(() => computeAllStats(draws), [draws]);
+
+  if (allStats.length === 0) {
+    return (
+      <div className="p-8 text-center text-slate-500 bg-white rounded-xl shadow-sm">
+        No draws loaded to analyse.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {allStats.map(stats => (
+        <GameStatsCard key={stats.game} stats={stats} />
+      ))}
+    </div>
+  );
+};
+
+export default StatsView;
@@ -0,0 +1,221 @@
+
+import React, { useMemo, useState } from 'react';
+import { Ledger, LottoGame, TicketBoard } from '../types';
+import { GAME_RULES } from '../services/gameRules';
+import { parseBoard } from '../services/ticketChecker';
+import { expectedDrawDates } from '../services/drawSchedule';
+import { EXPORT_FORMATS } from '../services/drawExport';
+import { downloadFile } from '../services/download';
+import {
+  LEDGER_EXPORT_FORMATS,
+  LedgerExportFormat,
+  exportLedger,
+  memberTotals,
+  parseOwners,
+  ticketProgress
+} from '../services/syndicate';
+
+interface SyndicateWalletProps {
+  ledger: Ledger;
+  onChange: (ledger: Ledger) => void;
+  defaultStartDate: string;
+  defaultEndDate: string;
+}
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+const inputClass = 'mt-1 w-full rounded-lg border border-slate-200 text-sm p-2 bg-white';
+
+const formatRand = (amount: number) => `R ${amount.toLocaleString('en-ZA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const SyndicateWallet: React.FC<SyndicateWalletProps> = ({ ledger, onChange, defaultStartDate, defaultEndDate }) => {
+  const [game, setGame] = useState<LottoGame>(LottoGame.LOTTO);
+  const [boardText, setBoardText] = useState('');
+  const [firstDrawDate, setFirstDrawDate] = useState(defaultStartDate);
+  const [lastDrawDate, setLastDrawDate] = useState(defaultEndDate);
+  const [costText, setCostText] = useState('');
+  const [ownersText, setOwnersText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const totals = useMemo(() => memberTotals(ledger), [ledger]);
+  const boardCount = boardText.split('\n').filter(l => l.trim()).length;
+  const drawCount = expectedDrawDates(game, firstDrawDate, lastDrawDate).length;
+  const suggestedCost = boardCount * drawCount * GAME_RULES[game].boardPrice;
+
+  const addTicket = () => {
+    const problems: string[] = [];
+    const boards: TicketBoard[] = [];
+    const lines = boardText.split('\n').map(l => l.trim()).filter(Boolean);
+    if (lines.length === 0) problems.push("Enter at least one board.");
+    lines.forEach((line, i) => {
+      const { board, errors } = parseBoard(line, game);
+      if (board) boards.push(board);
+      else problems.push(`Board ${i + 1}: ${errors.join(' ')}`);
+    });
+    if (firstDrawDate > lastDrawDate) problems.push("The first draw date must not be after the last.");
+    const cost = costText.trim() ? Number(costText) : suggestedCost;
+    if (!(cost >= 0)) problems.push("The cost must be a rand amount.");
+    const { owners, errors: ownerErrors } = parseOwners(ownersText);
+    problems.push(...ownerErrors);
+
+    setErrors(problems);
+    if (problems.length > 0) return;
+    onChange({
+      ...ledger,
+      tickets: [...ledger.tickets, { id: `ticket-${Date.now()}`, game, boards, firstDrawDate, lastDrawDate, cost, owners }]
+    });
+    setBoardText('');
+    setCostText('');
+  };
+
+  const removeTicket = (id: string) => {
+    if (!window.confirm("Remove this ticket and its settlements from the ledger?")) return;
+    onChange({ tickets: ledger.tickets.filter(t => t.id !== id), settlements: ledger.settlements.filter(s => s.ticketId !== id) });
+  };
+
+  const exportAs = (format: LedgerExportFormat) => {
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    downloadFile(exportLedger(ledger, format), mimeType, `sa_lotto_syndicate_ledger_${new Date().toISOString().slice(0, 10)}.${extension}`);
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-slate-100 p-6 space-y-8">
+      <section className="space-y-3">
+        <h3 className="text-sm font-black text-slate-900">Add Ticket</h3>
+        <div className="grid gap-4 md:grid-cols-[200px_1fr_220px] items-start">
+          <div className="space-y-3">
+            <label className="block">
+              <span className={labelClass}>Game</span>
+              <select value={game} onChange={(e) => setGame(e.target.value as LottoGame)} className={inputClass}>
+                {Object.values(LottoGame).map(g => <option key={g} value={g}>{g}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>First Draw</span>
+              <input type="date" value={firstDrawDate} onChange={(e) => setFirstDrawDate(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Last Draw</span>
+              <input type="date" value={lastDrawDate} onChange={(e) => setLastDrawDate(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+          <label className="block">
+            <span className={labelClass}>Boards (one per line)</span>
+            <textarea value={boardText} onChange={(e) => setBoardText(e.target.value)} rows={7} className={`${inputClass} font-mono`} />
+          </label>
+          <div className="space-y-3">
+            <label className="block">
+              <span className={labelClass}>Cost (R)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={costText}
+                onChange={(e) => setCostText(e.target.value)}
+                placeholder={suggestedCost.toFixed(2)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Owners and shares</span>
+              <input value={ownersText} onChange={(e) => setOwnersText(e.target.value)} placeholder="Thandi: 2, Pieter, Lerato" className={inputClass} />
+            </label>
+            <button
+              onClick={addTicket}
+              className="w-full px-6 py-2 bg-amber-500 text-slate-900 font-bold rounded-lg text-sm hover:bg-amber-400 transition-all shadow-[0_4px_0_0_rgb(180,83,9)] active:shadow-none active:translate-y-[4px]"
+            >
+              ADD TO WALLET
+            </button>
+          </div>
+        </div>
+        {errors.length > 0 && (
+          <ul className="text-xs text-red-600 space-y-1">
+            {errors.map((err, i) => <li key={i}>{err}</li>)}
+          </ul>
+        )}
+      </section>
+
+      {totals.length > 0 && (
+        <section className="space-y-3">
+          <header className="flex items-center justify-between gap-4">
+            <h3 className="text-sm font-black text-slate-900">Members</h3>
+            <div className="flex gap-2">
+              {LEDGER_EXPORT_FORMATS.map(format => (
+                <button
+                  key={format}
+                  onClick={() => exportAs(format)}
+                  className="text-[10px] font-black uppercase px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors"
+                >
+                  Export {EXPORT_FORMATS[format].label}
+                </button>
+              ))}
+            </div>
+          </header>
+          <table className="w-full text-left text-xs">
+            <thead className="text-[10px] uppercase tracking-wider text-slate-400">
+              <tr>
+                <th className="py-2 pr-4 font-bold">Member</th>
+                <th className="py-2 pr-4 font-bold text-right">Spend</th>
+                <th className="py-2 pr-4 font-bold text-right">Winnings</th>
+                <th className="py-2 font-bold text-right">Net</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {totals.map(t => (
+                <tr key={t.member}>
+                  <td className="py-2 pr-4 font-bold text-slate-800">{t.member}</td>
+                  <td className="py-2 pr-4 text-right tabular-nums">{formatRand(t.spend)}</td>
+                  <td className="py-2 pr-4 text-right tabular-nums">{formatRand(t.winnings)}</td>
+                  <td className={`py-2 text-right tabular-nums font-bold ${t.net >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatRand(t.net)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {ledger.tickets.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="text-sm font-black text-slate-900">Tickets</h3>
+          <ul className="divide-y divide-slate-100">
+            {ledger.tickets.map(ticket => {
+              const { settled, total } = ticketProgress(ticket, ledger);
+              const settlements = ledger.settlements.filter(s => s.ticketId === ticket.id);
+              const winnings = settlements.reduce((sum, s) => sum + s.winnings, 0);
+              const wins = settlements.reduce((sum, s) => sum + s.wins.length, 0);
+              const awaiting = settlements.reduce((sum, s) => sum + s.unpricedWins, 0);
+              return (
+                <li key={ticket.id} className="flex flex-wrap items-center justify-between gap-4 py-3 text-xs">
+                  <div className="space-y-1">
+                    <p className="text-sm font-bold text-slate-800">
+                      {ticket.game} · {ticket.boards.length} board{ticket.boards.length === 1 ? '' : 's'} · {ticket.firstDrawDate === ticket.lastDrawDate ? ticket.firstDrawDate : `${ticket.firstDrawDate} to ${ticket.lastDrawDate}`}
+                    </p>
+                    <p className="text-slate-500">
+                      {formatRand(ticket.cost)} · {ticket.owners.map(o => `${o.member} (${o.shares})`).join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={`px-2 py-0.5 rounded-full font-bold ${settled === total ? 'bg-slate-100 text-slate-600' : 'bg-blue-50 text-blue-700'}`}>
+                      {settled === total ? 'Settled' : `${settled} of ${total} draws settled`}
+                    </span>
+                    <span className={`font-bold tabular-nums ${wins > 0 ? 'text-emerald-600' : 'text-slate-400'}`}>
+                      {wins > 0 ? `${wins} win${wins === 1 ? '' : 's'} · ${formatRand(winnings)}` : 'No wins'}
+                      {awaiting > 0 && <span className="ml-1 text-amber-600">({awaiting} awaiting payout)</span>}
+                    </span>
+                    <button
+                      onClick={() => removeTicket(ticket.id)}
+                      className="text-[10px] font-black uppercase px-2 py-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default SyndicateWallet;
@@ -0,0 +1,159 @@
+
+import React, { useState } from 'react';
+import { BoardCheck, LottoGame, Ticket, TicketBoard } from '../types';
+import { parseBoard } from '../services/ticketChecker';
+import { GAME_RULES } from '../services/gameRules';
+import LottoBall from './LottoBall';
+
+interface TicketCheckerProps {
+  tickets: Ticket[];
+  checks: BoardCheck[];
+  onChange: (tickets: Ticket[]) => void;
+  defaultStartDate: string;
+  defaultEndDate: string;
+}
+
+const boardPlaceholder = (game: LottoGame) => {
+  const rules = GAME_RULES[game];
+  const example = Array.from({ length: rules.ballCount }, (_, i) => (i + 1) * 6).join(' ');
+  return rules.bonus === 'powerBall' ? `${example} + 7` : example;
+};
+
+const TicketChecker: React.FC<TicketCheckerProps> = ({ tickets, checks, onChange, defaultStartDate, defaultEndDate }) => {
+  const [game, setGame] = useState<LottoGame>(LottoGame.LOTTO);
+  const [boardText, setBoardText] = useState('');
+  const [firstDrawDate, setFirstDrawDate] = useState(defaultStartDate);
+  const [lastDrawDate, setLastDrawDate] = useState(defaultEndDate);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const addTicket = () => {
+    const lines = boardText.split('\n').map(l => l.trim()).filter(Boolean);
+    if (lines.length === 0) {
+      setErrors(["Enter at least one board."]);
+      return;
+    }
+
+    const boards: TicketBoard[] = [];
+    const lineErrors: string[] = [];
+    lines.forEach((line, i) => {
+      const { board, errors } = parseBoard(line, game);
+      if (board) boards.push(board);
+      else lineErrors.push(`Board ${i + 1}: ${errors.join(' ')}`);
+    });
+    if (firstDrawDate > lastDrawDate) {
+      lineErrors.push("The first draw date must not be after the last.");
+    }
+    if (lineErrors.length > 0) {
+      setErrors(lineErrors);
+      return;
+    }
+
+    onChange([...tickets, { id: `ticket-${Date.now()}`, game, boards, firstDrawDate, lastDrawDate }]);
+    setBoardText('');
+    setErrors([]);
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-slate-100 p-6 space-y-6">
+      <div className="grid gap-4 md:grid-cols-[200px_1fr_auto] items-start">
+        <div className="space-y-3">
+          <label className="block">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Game</span>
+            <select
+              value={game}
+              onChange={(e) => setGame(e.target.value as LottoGame)}
+              className="mt-1 w-full rounded-lg border border-slate-200 text-sm p-2 bg-white"
+            >
+              {Object.values(LottoGame).map(g => <option key={g} value={g}>{g}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">First Draw</span>
+            <input type="date" value={firstDrawDate} onChange={(e) => setFirstDrawDate(e.target.value)} className="mt-1 w-full rounded-lg border border-slate-200 text-sm p-2" />
+          </label>
+          <label className="block">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Last Draw</span>
+            <input type="date" value={lastDrawDate} onChange={(e) => setLastDrawDate(e.target.value)} className="mt-1 w-full rounded-lg border border-slate-200 text-sm p-2" />
+          </label>
+        </div>
+        <label className="block">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Boards (one per line)</span>
+          <textarea
+            value={boardText}
+            onChange={(e) => setBoardText(e.target.value)}
+            rows={6}
+            placeholder={boardPlaceholder(game)}
+            className="mt-1 w-full rounded-lg border border-slate-200 text-sm p-2 font-mono"
+          />
+        </label>
+        <button
+          onClick={addTicket}
+          className="md:mt-5 px-6 py-2 bg-amber-500 text-slate-900 font-bold rounded-lg text-sm hover:bg-amber-400 transition-all shadow-[0_4px_0_0_rgb(180,83,9)] active:shadow-none active:translate-y-[4px]"
+        >
+          CHECK TICKET
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-1">
+          {errors.map((err, i) => <li key={i}>{err}</li>)}
+        </ul>
+      )}
+
+      {tickets.map(ticket => {
+        const ticketChecks = checks.filter(c => c.ticketId === ticket.id);
+        const wins = ticketChecks.filter(c => c.division !== null).length;
+        return (
+          <section key={ticket.id} className="border-t border-slate-100 pt-4">
+            <header className="flex items-center justify-between gap-4 mb-3">
+              <p className="text-sm font-bold text-slate-800">
+                {ticket.game} · {ticket.boards.length} board{ticket.boards.length === 1 ? '' : 's'} · {ticket.firstDrawDate === ticket.lastDrawDate ? ticket.firstDrawDate : `${ticket.firstDrawDate} to ${ticket.lastDrawDate}`}
+                <span className={`ml-3 text-xs ${wins > 0 ? 'text-emerald-600' : 'text-slate-400'}`}>
+                  {ticketChecks.length === 0 ? 'No draws loaded for these dates' : `${wins} winning board${wins === 1 ? '' : 's'}`}
+                </span>
+              </p>
+              <button
+                onClick={() => onChange(tickets.filter(t => t.id !== ticket.id))}
+                className="text-[10px] font-black uppercase px-2 py-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+              >
+                Remove
+              </button>
+            </header>
+            {ticketChecks.length > 0 && (
+              <table className="w-full text-left text-xs">
+                <tbody className="divide-y divide-slate-100">
+                  {ticketChecks.map(check => (
+                    <tr key={`${check.drawId}-${check.boardIndex}`}>
+                      <td className="py-2 pr-4 whitespace-nowrap text-slate-600">{check.date}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap text-slate-400">Board {check.boardIndex + 1}</td>
+                      <td className="py-2 pr-4">
+                        <div className="flex flex-wrap gap-1 items-center">
+                          {check.matchedNumbers.map(n => <LottoBall key={n} number={n} />)}
+                          {check.bonusMatched && (
+                            <span className="text-[10px] font-black uppercase text-blue-600 ml-1">
+                              + {GAME_RULES[check.game].bonus === 'powerBall' ? 'PowerBall' : 'Bonus'}
+                            </span>
+                          )}
+                          {check.matchedNumbers.length === 0 && !check.bonusMatched && <span className="text-slate-300">No matches</span>}
+                        </div>
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {check.division !== null ? (
+                          <span className="px-3 py-1 rounded-full text-xs font-bold bg-emerald-100 text-emerald-700">Division {check.division}</span>
+                        ) : (
+                          <span className="text-slate-300 font-bold">No win</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TicketChecker;
@@ -0,0 +1,51 @@
+
+import React, { useState } from 'react';
+import { RejectedDraw } from '../types';
+
+interface ValidationSummaryProps {
+  acceptedCount: number;
+  rejected: RejectedDraw[];
+}
+
+const ValidationSummary: React.FC<ValidationSummaryProps> = ({ acceptedCount, rejected }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (acceptedCount === 0 && rejected.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-xl shadow-sm border border-slate-100">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs font-bold text-slate-500 uppercase tracking-widest flex items-center gap-3">
+          <span className="text-emerald-600">{acceptedCount} accepted</span>
+          <span className={rejected.length > 0 ? 'text-red-600' : 'text-slate-400'}>{rejected.length} rejected</span>
+        </p>
+        {rejected.length > 0 && (
+          <button
+            onClick={() => setExpanded(prev => !prev)}
+            className="text-[10px] font-black uppercase px-2 py-1 rounded text-slate-500 hover:bg-slate-100 transition-colors"
+          >
+            {expanded ? 'Hide reasons' : 'Why?'}
+          </button>
+        )}
+      </div>
+
+      {expanded && rejected.length > 0 && (
+        <ul className="mt-3 divide-y divide-slate-100 border-t border-slate-100">
+          {rejected.map((item, i) => (
+            <li key={i} className="py-2 text-xs flex flex-col sm:flex-row sm:items-start gap-1 sm:gap-4">
+              <span className="font-bold text-slate-700 whitespace-nowrap min-w-[200px]">
+                {item.draw.game || 'Unknown game'} · {item.draw.date || 'no date'}
+                {Array.isArray(item.draw.numbers) && (
+                  <span className="block font-mono font-medium text-slate-400">{item.draw.numbers.join(' ')}</span>
+                )}
+              </span>
+              <span className="text-red-600">{item.reasons.join(' ')}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationSummary;
@@ -0,0 +1,197 @@
+
+import React, { useState } from 'react';
+import { LottoGame, Watchlist, WatchAlert } from '../types';
+import { parseBoard } from '../services/ticketChecker';
+import { notificationsSupported, requestNotificationPermission } from '../services/watchlist';
+import LottoBall from './LottoBall';
+
+interface WatchlistPanelProps {
+  watchlist: Watchlist;
+  onChange: (watchlist: Watchlist) => void;
+  /** Alerts fired this session, newest first. */
+  alerts: WatchAlert[];
+  /** The last webhook delivery problem, if any. */
+  deliveryError?: string | null;
+}
+
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+const inputClass = 'mt-1 w-full rounded-lg border border-slate-200 text-sm p-2 bg-white';
+
+const GameSelect: React.FC<{ value: LottoGame; onChange: (game: LottoGame) => void }> = ({ value, onChange }) => (
+  <label className="block">
+    <span className={labelClass}>Game</span>
+    <select value={value} onChange={(e) => onChange(e.target.value as LottoGame)} className={inputClass}>
+      {Object.values(LottoGame).map(g => <option key={g} value={g}>{g}</option>)}
+    </select>
+  </label>
+);
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button
+    onClick={onClick}
+    className="text-[10px] font-black uppercase px-2 py-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+  >
+    Remove
+  </button>
+);
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ watchlist, onChange, alerts, deliveryError }) => {
+  const [boardGame, setBoardGame] = useState<LottoGame>(LottoGame.LOTTO);
+  const [boardText, setBoardText] = useState('');
+  const [boardErrors, setBoardErrors] = useState<string[]>([]);
+  const [jackpotGame, setJackpotGame] = useState<LottoGame>(LottoGame.POWERBALL);
+  const [jackpotMillions, setJackpotMillions] = useState('100');
+  const [webhookUrl, setWebhookUrl] = useState(watchlist.webhookUrl || '');
+  const [permissionDenied, setPermissionDenied] = useState(false);
+
+  const addBoard = () => {
+    const { board, errors } = parseBoard(boardText, boardGame);
+    if (!board) {
+      setBoardErrors(errors);
+      return;
+    }
+    onChange({ ...watchlist, boards: [...watchlist.boards, { id: `watch-${Date.now()}`, game: boardGame, board }] });
+    setBoardText('');
+    setBoardErrors([]);
+  };
+
+  const addThreshold = () => {
+    const millions = Number(jackpotMillions);
+    if (!(millions > 0)) return;
+    onChange({
+      ...watchlist,
+      thresholds: [...watchlist.thresholds, { id: `jackpot-${Date.now()}`, game: jackpotGame, amount: millions * 1e6 }]
+    });
+  };
+
+  const toggleNotify = async () => {
+    if (watchlist.notify) {
+      onChange({ ...watchlist, notify: false });
+      return;
+    }
+    const allowed = await requestNotificationPermission();
+    setPermissionDenied(!allowed);
+    if (allowed) onChange({ ...watchlist, notify: true });
+  };
+
+  const saveWebhook = () => {
+    const url = webhookUrl.trim();
+    onChange({ ...watchlist, webhookUrl: url || undefined });
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-slate-100 p-6 space-y-8">
+      <section className="space-y-3">
+        <h3 className="text-sm font-black text-slate-900">Watched Boards</h3>
+        <p className="text-xs text-slate-500">Alerts when a fetched draw gives one of these boards a prize.</p>
+        <div className="grid gap-3 md:grid-cols-[200px_1fr_auto] items-end">
+          <GameSelect value={boardGame} onChange={setBoardGame} />
+          <label className="block">
+            <span className={labelClass}>Numbers</span>
+            <input
+              value={boardText}
+              onChange={(e) => setBoardText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addBoard()}
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <button onClick={addBoard} className="px-4 py-2 bg-slate-900 text-white font-bold rounded-lg text-xs hover:bg-slate-700 transition-colors">
+            WATCH
+          </button>
+        </div>
+        {boardErrors.length > 0 && (
+          <ul className="text-xs text-red-600 space-y-1">
+            {boardErrors.map((err, i) => <li key={i}>{err}</li>)}
+          </ul>
+        )}
+        <ul className="divide-y divide-slate-100">
+          {watchlist.boards.map(watch => (
+            <li key={watch.id} className="flex items-center justify-between gap-4 py-2">
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-xs font-bold text-slate-700 w-32">{watch.game}</span>
+                {watch.board.numbers.map(n => <LottoBall key={n} number={n} />)}
+                {watch.board.powerBall !== undefined && <LottoBall number={watch.board.powerBall} type="powerball" />}
+              </div>
+              <RemoveButton onClick={() => onChange({ ...watchlist, boards: watchlist.boards.filter(w => w.id !== watch.id) })} />
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-black text-slate-900">Jackpot Alerts</h3>
+        <div className="grid gap-3 md:grid-cols-[200px_200px_auto] items-end">
+          <GameSelect value={jackpotGame} onChange={setJackpotGame} />
+          <label className="block">
+            <span className={labelClass}>Passes (R million)</span>
+            <input type="number" min="1" value={jackpotMillions} onChange={(e) => setJackpotMillions(e.target.value)} className={inputClass} />
+          </label>
+          <button onClick={addThreshold} className="justify-self-start px-4 py-2 bg-slate-900 text-white font-bold rounded-lg text-xs hover:bg-slate-700 transition-colors">
+            ADD ALERT
+          </button>
+        </div>
+        <ul className="divide-y divide-slate-100">
+          {watchlist.thresholds.map(watch => (
+            <li key={watch.id} className="flex items-center justify-between gap-4 py-2 text-sm text-slate-700">
+              <span>{watch.game} passes <span className="font-bold tabular-nums">R {watch.amount.toLocaleString('en-ZA')}</span></span>
+              <RemoveButton onClick={() => onChange({ ...watchlist, thresholds: watchlist.thresholds.filter(w => w.id !== watch.id) })} />
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-black text-slate-900">Delivery</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={toggleNotify}
+            disabled={!notificationsSupported()}
+            className={`
+              px-4 py-2 rounded-lg text-xs font-bold border transition-colors
+              ${watchlist.notify ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}
+              ${!notificationsSupported() ? 'opacity-50 cursor-not-allowed' : ''}
+            `}
+          >
+            {watchlist.notify ? 'Browser notifications on' : 'Turn on browser notifications'}
+          </button>
+          {permissionDenied && <span className="text-xs text-red-600">The browser blocked notifications for this site.</span>}
+        </div>
+        <div className="grid gap-3 md:grid-cols-[1fr_auto] items-end">
+          <label className="block">
+            <span className={labelClass}>Webhook URL (optional)</span>
+            <input
+              type="url"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              placeholder="https://example.com/lotto-alerts"
+              className={inputClass}
+            />
+          </label>
+          <button onClick={saveWebhook} className="justify-self-start px-4 py-2 bg-slate-900 text-white font-bold rounded-lg text-xs hover:bg-slate-700 transition-colors">
+            SAVE
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">Each alert is POSTed as JSON with the alert and the full draw.</p>
+        {deliveryError && <p className="text-xs text-red-600">{deliveryError}</p>}
+      </section>
+
+      {alerts.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-black text-slate-900">Recent Alerts</h3>
+          <ul className="space-y-1">
+            {alerts.map(alert => (
+              <li
+                key={alert.id}
+                className={`text-xs px-3 py-2 rounded-lg ${alert.kind === 'jackpot' ? 'bg-amber-50 text-amber-800' : 'bg-emerald-50 text-emerald-800'}`}
+              >
+                {alert.message}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistPanel;
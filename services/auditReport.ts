@@ -0,0 +1,78 @@
+import { AuditTest, GameAudit } from "../types";
+import { SUSPICIOUS_P, UNUSUAL_P, auditVerdict } from "./randomnessAudit";
+
+const VERDICT_LABELS = {
+  consistent: 'Consistent with chance',
+  unusual: 'Unusual',
+  suspicious: 'Suspicious',
+  untested: 'Not tested'
+};
+
+export const verdictLabel = (test: AuditTest) => VERDICT_LABELS[auditVerdict(test.pValue)];
+
+export const formatPValue = (pValue: number | null) =>
+  pValue === null ? '—' : pValue < 0.0001 ? '< 0.0001' : pValue.toFixed(4);
+
+export const formatStatistic = (test: AuditTest) =>
+  test.statistic === undefined
+    ? '—'
+    : `${test.statisticName} = ${test.statistic.toFixed(2)}${test.degreesOfFreedom !== undefined ? ` (df ${test.degreesOfFreedom})` : ''}`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const testRow = (test: AuditTest) => `
+      <tr class="${auditVerdict(test.pValue)}">
+        <td><strong>${escapeHtml(test.name)}</strong><br><small>${escapeHtml(test.description)}</small></td>
+        <td>${test.sampleSize.toLocaleString('en-ZA')}</td>
+        <td>${escapeHtml(formatStatistic(test))}</td>
+        <td>${formatPValue(test.pValue)}</td>
+        <td>${verdictLabel(test)}${test.warnings.map(w => `<br><small class="warning">${escapeHtml(w)}</small>`).join('')}</td>
+      </tr>`;
+
+const gameSection = (audit: GameAudit) => `
+  <section>
+    <h2>${escapeHtml(audit.game)}</h2>
+    <p class="meta">${audit.drawCount} draw${audit.drawCount === 1 ? '' : 's'}${audit.firstDate ? `, ${audit.firstDate} to ${audit.lastDate}` : ''}</p>
+    <table>
+      <thead><tr><th>Test</th><th>Sample</th><th>Statistic</th><th>p-value</th><th>Verdict</th></tr></thead>
+      <tbody>${audit.tests.map(testRow).join('')}
+      </tbody>
+    </table>
+  </section>`;
+
+/**
+ * A standalone HTML page of the audit, laid out for printing. `scope` says which draws were
+ * audited, e.g. the date range and game filter in force.
+ */
+export const auditReportHtml = (audits: GameAudit[], scope: string): string => {
+  const testCount = audits.reduce((sum, a) => sum + a.tests.filter(t => t.pValue !== null).length, 0);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>SA Lotto randomness audit</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #0f172a; margin: 2rem; font-size: 12px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    h2 { font-size: 15px; margin: 24px 0 2px; }
+    .meta, small { color: #64748b; }
+    table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+    th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+    th { font-size: 10px; text-transform: uppercase; letter-spacing: 0.05em; color: #94a3b8; }
+    tr.unusual td:last-child { color: #b45309; font-weight: 700; }
+    tr.suspicious td:last-child { color: #b91c1c; font-weight: 700; }
+    .warning { color: #b45309; }
+    section { break-inside: avoid; }
+  </style>
+</head>
+<body>
+  <h1>Randomness audit</h1>
+  <p class="meta">${escapeHtml(scope)} · generated ${new Date().toLocaleString('en-ZA')}</p>
+  <p>Each p-value is the chance a fair draw would look at least this uneven. Results below ${UNUSUAL_P} are marked unusual and below ${SUSPICIOUS_P} suspicious.
+    Of the ${testCount} tests run, about ${Math.round(testCount * UNUSUAL_P * 10) / 10} would be expected below ${UNUSUAL_P} by chance alone.</p>
+  ${audits.map(gameSection).join('')}
+</body>
+</html>
+`;
+};
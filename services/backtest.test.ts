@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BacktestConfig, DrawResult, LottoGame } from '../types';
+import { createRandom, runBacktest } from './backtest';
+
+/** A year of Daily Lotto draws with every division priced, generated from `seed`. */
+const dailyDraws = (seed: number): DrawResult[] => {
+  const random = createRandom(seed);
+  return Array.from({ length: 365 }, (_, i) => {
+    const pool = Array.from({ length: 36 }, (_, j) => j + 1);
+    const numbers = Array.from({ length: 5 }, () => pool.splice(Math.floor(random() * pool.length), 1)[0]).sort((a, b) => a - b);
+    return {
+      id: '',
+      game: LottoGame.DAILY_LOTTO,
+      date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10),
+      numbers,
+      divisions: [1, 2, 3, 4].map(division => ({ division, winners: 1, payout: 10 ** (5 - division) }))
+    };
+  });
+};
+
+const config = (seed: number): BacktestConfig => ({
+  game: LottoGame.DAILY_LOTTO,
+  seed,
+  strategies: [{ kind: 'quick-pick', boards: 3 }, { kind: 'hot', window: 20 }]
+});
+
+test('the same seed replays the same quick picks', () => {
+  const draws = dailyDraws(1);
+  assert.deepEqual(runBacktest(draws, config(42)), runBacktest(draws, config(42)));
+  assert.notDeepEqual(runBacktest(draws, config(42)).strategies[0], runBacktest(draws, config(43)).strategies[0]);
+});
+
+test('adding a strategy leaves the others\' picks unchanged', () => {
+  const draws = dailyDraws(2);
+  const alone = runBacktest(draws, { ...config(7), strategies: [{ kind: 'quick-pick', boards: 3 }] });
+  const withOthers = runBacktest(draws, { ...config(7), strategies: [{ kind: 'quick-pick', boards: 3 }, { kind: 'quick-pick', boards: 1 }] });
+  assert.deepEqual(withOthers.strategies[0], alone.strategies[0]);
+});
+
+test('spend and winnings add up from the boards played and the divisions hit', () => {
+  const result = runBacktest(dailyDraws(3), config(5));
+  assert.equal(result.drawCount, 365);
+  result.strategies.forEach(s => {
+    assert.equal(s.spend, s.boardsPlayed * result.boardPrice);
+    const winnings = Object.entries(s.hits).reduce((sum, [division, hits]) => sum + hits * 10 ** (5 - Number(division)), 0);
+    assert.equal(s.winnings, winnings);
+    assert.equal(s.unpricedWins, 0);
+  });
+});
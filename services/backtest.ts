@@ -0,0 +1,183 @@
+import { BacktestConfig, BacktestResult, BacktestStrategy, DrawResult, LottoGame, StrategyResult, TicketBoard } from "../types";
+import { GAME_RULES } from "./gameRules";
+import { dedupeDraws } from "./drawIdentity";
+import { checkBoard } from "./ticketChecker";
+
+/** Most boards a wheel may expand to, so a long number list cannot queue millions of boards. */
+export const MAX_WHEEL_BOARDS = 5000;
+
+/**
+ * A seeded generator (mulberry32) returning floats in [0, 1). The same seed gives the same
+ * sequence on every machine, which is what makes a backtest repeatable.
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const randomInt = (random: () => number, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+/** `count` distinct numbers from min..max, ascending. */
+const pickDistinct = (random: () => number, min: number, max: number, count: number): number[] => {
+  const pool = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count).sort((a, b) => a - b);
+};
+
+const countCombinations = (n: number, k: number) => {
+  let total = 1;
+  for (let i = 1; i <= k; i++) total = (total * (n - k + i)) / i;
+  return Math.round(total);
+};
+
+const combinations = (items: number[], size: number): number[][] => {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) => combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+};
+
+/**
+ * How many boards a full wheel of `numbers` plays in one draw of `game`.
+ */
+export const wheelSize = (game: LottoGame, numbers: number[]) => countCombinations(numbers.length, GAME_RULES[game].ballCount);
+
+export const strategyLabel = (strategy: BacktestStrategy): string => {
+  switch (strategy.kind) {
+    case 'fixed': return `Fixed (${strategy.boards.length} board${strategy.boards.length === 1 ? '' : 's'})`;
+    case 'quick-pick': return `Quick pick × ${strategy.boards}`;
+    case 'hot': return `Hot numbers (last ${strategy.window} draws)`;
+    case 'cold': return `Cold numbers (last ${strategy.window} draws)`;
+    case 'wheel': return `Wheel of ${strategy.numbers.length} (${strategy.numbers.join(' ')})`;
+  }
+};
+
+/**
+ * One board of the most or least frequent numbers in `prior`. Ties go to the lower number, so
+ * the board depends on the history alone.
+ */
+const frequencyBoard = (game: LottoGame, prior: DrawResult[], hot: boolean): TicketBoard => {
+  const rules = GAME_RULES[game];
+  const rank = (min: number, max: number, values: number[]) => {
+    const counts = new Map<number, number>();
+    values.forEach(n => counts.set(n, (counts.get(n) || 0) + 1));
+    return Array.from({ length: max - min + 1 }, (_, i) => min + i)
+      .sort((a, b) => (hot ? -1 : 1) * ((counts.get(a) || 0) - (counts.get(b) || 0)) || a - b);
+  };
+
+  const numbers = rank(rules.minNumber, rules.maxNumber, prior.flatMap(d => d.numbers))
+    .slice(0, rules.ballCount)
+    .sort((a, b) => a - b);
+  if (rules.bonus !== 'powerBall') return { numbers };
+  const powerBalls = prior.flatMap(d => (typeof d.powerBall === 'number' ? [d.powerBall] : []));
+  return { numbers, powerBall: rank(rules.bonusMin, rules.bonusMax, powerBalls)[0] };
+};
+
+/** A wheel's combinations, worked out once per strategy rather than once per draw. */
+const wheelCache = new WeakMap<BacktestStrategy, number[][]>();
+
+/**
+ * The boards a strategy plays in `history[index]`, with `history` oldest first. Hot and cold
+ * boards see only the draws before it, and sit out a draw until there is history to rank.
+ */
+const boardsFor = (
+  strategy: BacktestStrategy,
+  game: LottoGame,
+  history: DrawResult[],
+  index: number,
+  random: () => number
+): TicketBoard[] => {
+  const rules = GAME_RULES[game];
+  const powerBall = () => (rules.bonus === 'powerBall' ? randomInt(random, rules.bonusMin, rules.bonusMax) : undefined);
+
+  switch (strategy.kind) {
+    case 'fixed':
+      return strategy.boards;
+    case 'quick-pick':
+      return Array.from({ length: strategy.boards }, () => ({
+        numbers: pickDistinct(random, rules.minNumber, rules.maxNumber, rules.ballCount),
+        powerBall: powerBall()
+      }));
+    case 'hot':
+    case 'cold': {
+      const prior = history.slice(Math.max(0, index - strategy.window), index);
+      return prior.length === 0 ? [] : [frequencyBoard(game, prior, strategy.kind === 'hot')];
+    }
+    case 'wheel': {
+      if (!wheelCache.has(strategy)) {
+        wheelCache.set(strategy, combinations([...strategy.numbers].sort((a, b) => a - b), rules.ballCount));
+      }
+      const pb = strategy.powerBall ?? powerBall();
+      return wheelCache.get(strategy)!.map(numbers => ({ numbers, powerBall: pb }));
+    }
+  }
+};
+
+/**
+ * Replays each strategy over every draw of `config.game` in `draws`, oldest first, as if a ticket
+ * had been bought for each draw. Winnings use the division payouts published with each draw.
+ * Each strategy gets its own generator seeded from `config.seed`, so adding a strategy does not
+ * change another's picks.
+ */
+export const runBacktest = (draws: DrawResult[], config: BacktestConfig): BacktestResult => {
+  const { game, seed } = config;
+  const boardPrice = config.boardPrice ?? GAME_RULES[game].boardPrice;
+  const history = dedupeDraws(draws.filter(d => d.game === game)).reverse();
+
+  const strategies = config.strategies.map((strategy, index): StrategyResult => {
+    if (strategy.kind === 'wheel' && wheelSize(game, strategy.numbers) > MAX_WHEEL_BOARDS) {
+      throw new Error(`A wheel of ${strategy.numbers.length} numbers is more than ${MAX_WHEEL_BOARDS} boards a draw.`);
+    }
+    const random = createRandom(seed + index);
+    const result: StrategyResult = {
+      strategy,
+      label: strategyLabel(strategy),
+      drawsPlayed: 0,
+      boardsPlayed: 0,
+      spend: 0,
+      winnings: 0,
+      net: 0,
+      roi: 0,
+      hits: {},
+      unpricedWins: 0
+    };
+
+    history.forEach((draw, i) => {
+      const boards = boardsFor(strategy, game, history, i, random);
+      if (boards.length === 0) return;
+      result.drawsPlayed += 1;
+      result.boardsPlayed += boards.length;
+
+      boards.forEach(board => {
+        const { division } = checkBoard(board, draw);
+        if (division === null) return;
+        result.hits[division] = (result.hits[division] || 0) + 1;
+        const payout = draw.divisions?.find(d => d.division === division)?.payout;
+        if (payout === undefined) result.unpricedWins += 1;
+        else result.winnings += payout;
+      });
+    });
+
+    result.spend = result.boardsPlayed * boardPrice;
+    result.net = result.winnings - result.spend;
+    result.roi = result.spend > 0 ? result.net / result.spend : 0;
+    return result;
+  });
+
+  return {
+    game,
+    seed,
+    boardPrice,
+    firstDate: history[0]?.date,
+    lastDate: history[history.length - 1]?.date,
+    drawCount: history.length,
+    strategies
+  };
+};
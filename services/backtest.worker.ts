@@ -0,0 +1,11 @@
+import { BacktestConfig, DrawResult } from "../types";
+import { runBacktest } from "./backtest";
+
+// Runs off the main thread so a long replay does not freeze the page
+self.onmessage = (event: MessageEvent<{ draws: DrawResult[]; config: BacktestConfig }>) => {
+  try {
+    self.postMessage({ result: runBacktest(event.data.draws, event.data.config) });
+  } catch (err: any) {
+    self.postMessage({ error: err?.message || "The backtest failed." });
+  }
+};
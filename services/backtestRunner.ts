@@ -0,0 +1,31 @@
+import { BacktestConfig, BacktestResult, DrawResult } from "../types";
+
+/**
+ * Runs a backtest in a Web Worker. The worker is stopped once it answers, or when `signal` fires,
+ * in which case the promise rejects with an AbortError.
+ */
+export const runBacktestInWorker = (draws: DrawResult[], config: BacktestConfig, signal?: AbortSignal): Promise<BacktestResult> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("The backtest was cancelled.", 'AbortError'));
+    const worker = new Worker(new URL('./backtest.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException("The backtest was cancelled.", 'AbortError'));
+    };
+
+    worker.onmessage = (event: MessageEvent<{ result?: BacktestResult; error?: string }>) => {
+      finish();
+      if (event.data.result) resolve(event.data.result);
+      else reject(new Error(event.data.error));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "The backtest worker crashed."));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.postMessage({ draws, config });
+  });
@@ -0,0 +1,15 @@
+/**
+ * Saves generated file contents through the browser's download prompt.
+ */
+export const downloadFile = (contents: string | Uint8Array, mimeType: string, fileName: string) => {
+  const blob = new Blob([contents], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,32 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DrawResult, LottoGame } from '../types';
+import { clearArchive, getArchivedDraws, putArchivedDraws } from './drawArchive';
+
+const lotto = (date: string, drawNumber?: number): DrawResult => ({
+  id: '',
+  game: LottoGame.LOTTO,
+  date,
+  numbers: [1, 2, 3, 4, 5, 6],
+  ...(drawNumber !== undefined && { drawNumber })
+});
+
+beforeEach(() => clearArchive());
+
+test('a draw that gains its number replaces the record under its date-based id', async () => {
+  await putArchivedDraws([lotto('2025-01-01')]);
+  await putArchivedDraws([lotto('2025-01-01', 2500)]);
+  const stored = await getArchivedDraws('2025-01-01', '2025-01-01');
+  assert.deepEqual(stored.map(d => d.id), ['lotto-2500']);
+});
+
+test('a draw number already archived for another date does not overwrite that date', async () => {
+  await putArchivedDraws([lotto('2025-01-01', 2500)]);
+  await putArchivedDraws([{ ...lotto('2025-01-04', 2500), numbers: [7, 8, 9, 10, 11, 12] }]);
+  const stored = await getArchivedDraws('2025-01-01', '2025-01-04');
+  assert.deepEqual(stored.map(d => [d.date, d.id, d.drawNumber]), [
+    ['2025-01-04', 'lotto-2025-01-04', undefined],
+    ['2025-01-01', 'lotto-2500', 2500]
+  ]);
+});
@@ -0,0 +1,128 @@
+import { DrawResult, LottoGame } from "../types";
+import { expectedDrawDates } from "./drawSchedule";
+import { drawKey } from "./gameRules";
+import { canonicalDrawId, dedupeDraws, withoutDrawNumber } from "./drawIdentity";
+
+const DB_NAME = 'sa-lotto-archive';
+const DB_VERSION = 2;
+const STORE = 'draws';
+
+export interface DrawSlot {
+  game: LottoGame;
+  date: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openArchive = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const createStore = () => {
+          // One record per canonical draw id, found by date or by game and date
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('date', 'date');
+          store.createIndex('slot', ['game', 'date']);
+          return store;
+        };
+        if (event.oldVersion < 1) {
+          createStore();
+          return;
+        }
+        // Version 1 keyed records by game and date; move them over under their canonical ids
+        const legacy = request.transaction!.objectStore(STORE).getAll();
+        legacy.onsuccess = () => {
+          db.deleteObjectStore(STORE);
+          const store = createStore();
+          dedupeDraws(legacy.result as DrawResult[]).forEach(draw => store.put(draw));
+        };
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openArchive();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = work(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Returns every archived draw dated between `startDate` and `endDate` (inclusive), newest first.
+ */
+export const getArchivedDraws = async (startDate: string, endDate: string): Promise<DrawResult[]> => {
+  const draws = await runTransaction<DrawResult[]>('readonly', store =>
+    store.index('date').getAll(IDBKeyRange.bound(startDate, endDate))
+  );
+  return dedupeDraws(draws || []);
+};
+
+/**
+ * Stores draws under their canonical ids. A draw whose id changed since it was archived, such as
+ * one that has since gained its draw number, replaces the record left under the old id. A draw
+ * number already archived for another date is a conflict, as in `dedupeDraws`: the incoming draw
+ * loses the number and is stored under its date-based id rather than overwriting that date.
+ */
+export const putArchivedDraws = async (draws: DrawResult[]): Promise<void> => {
+  if (draws.length === 0) return;
+  await runTransaction('readwrite', store => {
+    // Copies are merged first so two of them cannot race for the same slot
+    dedupeDraws(draws).forEach(draw => {
+      const holder = store.get(canonicalDrawId(draw));
+      holder.onsuccess = () => {
+        const held = holder.result as DrawResult | undefined;
+        const record = held && held.date !== draw.date ? withoutDrawNumber(draw) : { ...draw, id: canonicalDrawId(draw) };
+        const existing = store.index('slot').getAllKeys([record.game, record.date]);
+        existing.onsuccess = () => {
+          existing.result.filter(key => key !== record.id).forEach(key => store.delete(key));
+          store.put(record);
+        };
+      };
+    });
+  });
+};
+
+/**
+ * Removes every game's result for a single date so the next fetch asks for it again.
+ */
+export const deleteArchivedDate = async (date: string): Promise<void> => {
+  await runTransaction('readwrite', store => {
+    const keys = store.index('date').getAllKeys(date);
+    keys.onsuccess = () => keys.result.forEach(key => store.delete(key));
+  });
+};
+
+export const clearArchive = async (): Promise<void> => {
+  await runTransaction('readwrite', store => store.clear());
+};
+
+/**
+ * Lists every game/date slot in the range that is expected to have a draw but is not archived yet.
+ */
+export const findMissingSlots = (stored: DrawResult[], startDate: string, endDate: string): DrawSlot[] => {
+  const have = new Set(stored.map(drawKey));
+  const missing: DrawSlot[] = [];
+
+  Object.values(LottoGame).forEach(game => {
+    expectedDrawDates(game, startDate, endDate).forEach(date => {
+      if (!have.has(drawKey({ game, date }))) missing.push({ game, date });
+    });
+  });
+  return missing;
+};
@@ -0,0 +1,101 @@
+import { DrawResult, LottoGame } from "../types";
+import { GAME_RULES } from "./gameRules";
+import { Cell, writeXlsx } from "./xlsx";
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  xlsx: { label: 'Excel (.xlsx)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+};
+
+/** Enough ball columns for the game with the most main balls. */
+const BALL_COLUMNS = 6;
+
+/** Enough division columns for the game with the most prize divisions. */
+export const DIVISION_COLUMNS = Math.max(...Object.values(GAME_RULES).map(r => r.divisions.length));
+
+export const divisionHeaders = (division: number) => [`Div ${division} Winners`, `Div ${division} Payout (ZAR)`];
+
+/**
+ * Column headings shared by the CSV and XLSX exports and recognised by the importer.
+ */
+export const TABLE_HEADERS = [
+  'Date',
+  'Game',
+  ...Array.from({ length: BALL_COLUMNS }, (_, i) => `Ball ${i + 1}`),
+  'Bonus Ball',
+  'PowerBall',
+  'Jackpot Amount (ZAR)',
+  'Draw Number',
+  'Rollover',
+  'Next Jackpot (ZAR)',
+  ...Array.from({ length: DIVISION_COLUMNS }, (_, i) => divisionHeaders(i + 1)).flat(),
+  'Official Source',
+  'Confidence',
+  'Sources'
+];
+
+/**
+ * One table row per draw. Dates stay ISO (YYYY-MM-DD) and unknown values are left blank
+ * rather than written as 0, so a bonus ball of 0 or a missing jackpot survives a round trip.
+ * Source URIs share one cell, separated by spaces.
+ */
+export const drawToRow = (draw: DrawResult): Cell[] => [
+  draw.date,
+  draw.game,
+  ...Array.from({ length: BALL_COLUMNS }, (_, i) => draw.numbers[i] ?? null),
+  draw.bonusBall ?? null,
+  draw.powerBall ?? null,
+  draw.jackpotAmount ?? null,
+  draw.drawNumber ?? null,
+  draw.rollover === undefined ? null : draw.rollover ? 'Yes' : 'No',
+  draw.nextJackpotAmount ?? null,
+  ...Array.from({ length: DIVISION_COLUMNS }, (_, i) => {
+    const payout = draw.divisions?.find(d => d.division === i + 1);
+    return [payout?.winners ?? null, payout?.payout ?? null];
+  }).flat(),
+  draw.provenance ? (draw.provenance.official ? 'Yes' : 'No') : null,
+  draw.provenance?.confidence ?? null,
+  draw.provenance ? draw.provenance.sources.map(s => s.uri).join(' ') : null
+];
+
+const csvField = (cell: Cell) => {
+  if (cell === null) return '';
+  if (typeof cell === 'number') return String(cell);
+  return `"${cell.replace(/"/g, '""')}"`;
+};
+
+export const rowsToCsv = (rows: Cell[][]): string => rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+
+export const toCsv = (draws: DrawResult[]): string => rowsToCsv([TABLE_HEADERS, ...draws.map(drawToRow)]);
+
+export const toJson = (draws: DrawResult[]): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), draws }, null, 2);
+
+export const toNdjson = (draws: DrawResult[]): string =>
+  draws.map(draw => JSON.stringify(draw)).join('\n') + '\n';
+
+/**
+ * A workbook with one sheet per game that has draws, in `LottoGame` order.
+ */
+export const toXlsx = (draws: DrawResult[]): Uint8Array =>
+  writeXlsx(
+    Object.values(LottoGame)
+      .filter(game => draws.some(d => d.game === game))
+      .map(game => ({
+        name: game,
+        rows: [TABLE_HEADERS, ...draws.filter(d => d.game === game).map(drawToRow)]
+      }))
+  );
+
+export const exportDraws = (draws: DrawResult[], format: ExportFormat): string | Uint8Array => {
+  switch (format) {
+    case 'csv': return toCsv(draws);
+    case 'json': return toJson(draws);
+    case 'ndjson': return toNdjson(draws);
+    case 'xlsx': return toXlsx(draws);
+  }
+};
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DrawResult, LottoGame } from '../types';
+import { canonicalDrawId, dedupeDraws, dedupeDrawsWithConflicts, mergeDrawCopies } from './drawIdentity';
+
+const lotto = (date: string, fields: Partial<DrawResult> = {}): DrawResult => ({
+  id: '',
+  game: LottoGame.LOTTO,
+  date,
+  numbers: [1, 2, 3, 4, 5, 6],
+  bonusBall: 7,
+  ...fields
+});
+
+test('the canonical id uses the draw number when there is one and the date otherwise', () => {
+  assert.equal(canonicalDrawId({ game: LottoGame.POWERBALL_PLUS, date: '2025-01-03', drawNumber: 1587 }), 'powerball-plus-1587');
+  assert.equal(canonicalDrawId({ game: LottoGame.LOTTO_PLUS_1, date: '2025-01-04' }), 'lotto-plus-1-2025-01-04');
+});
+
+test('a later copy wins field by field without blanking what only the earlier one had', () => {
+  const earlier = lotto('2025-01-04', {
+    jackpotAmount: 5_000_000,
+    divisions: [{ division: 1, winners: 0, payout: 0 }, { division: 2, winners: 3, payout: 100 }]
+  });
+  const later = lotto('2025-01-04', { drawNumber: 2500, bonusBall: 9, divisions: [{ division: 2, winners: 4 }] });
+  const merged = mergeDrawCopies(earlier, later);
+  assert.equal(merged.id, 'lotto-2500');
+  assert.equal(merged.bonusBall, 9);
+  assert.equal(merged.jackpotAmount, 5_000_000);
+  assert.deepEqual(merged.divisions, [{ division: 1, winners: 0, payout: 0 }, { division: 2, winners: 4, payout: 100 }]);
+});
+
+test('copies merge by game and date even when only one of them has a draw number', () => {
+  const draws = dedupeDraws([lotto('2025-01-04'), lotto('2025-01-04', { drawNumber: 2500 }), lotto('2025-01-01')]);
+  assert.deepEqual(draws.map(d => d.id), ['lotto-2500', 'lotto-2025-01-01']);
+});
+
+test('a draw number claimed by two dates is dropped from both and reported', () => {
+  const { draws, conflicts } = dedupeDrawsWithConflicts([
+    lotto('2025-01-04', { drawNumber: 2500 }),
+    lotto('2025-01-01', { drawNumber: 2500 }),
+    { ...lotto('2025-01-04', { drawNumber: 2500 }), game: LottoGame.LOTTO_PLUS_1 }
+  ]);
+  assert.deepEqual(draws.map(d => [d.id, d.drawNumber]), [
+    ['lotto-2025-01-04', undefined],
+    ['lotto-plus-1-2500', 2500],
+    ['lotto-2025-01-01', undefined]
+  ]);
+  assert.deepEqual(conflicts, [{ game: LottoGame.LOTTO, drawNumber: 2500, dates: ['2025-01-01', '2025-01-04'] }]);
+});
@@ -0,0 +1,85 @@
+import { DivisionPayout, DrawNumberConflict, DrawResult, LottoGame } from "../types";
+import { makeDrawId } from "./gameRules";
+import { mergeProvenance } from "./provenance";
+
+const GAME_ORDER = Object.values(LottoGame);
+
+/**
+ * The id every copy of a draw gets regardless of source: game plus the official draw number,
+ * e.g. "powerball-plus-1587", or game plus date when the source gave no number.
+ */
+export const canonicalDrawId = (draw: Pick<DrawResult, 'game' | 'date' | 'drawNumber'>): string =>
+  draw.drawNumber !== undefined && draw.drawNumber !== null
+    ? `${draw.game}-${draw.drawNumber}`.toLowerCase().replace(/\s+/g, '-')
+    : makeDrawId(draw.game, draw.date);
+
+/** A draw with its draw number dropped, under the date-based id that leaves it. */
+export const withoutDrawNumber = (draw: DrawResult): DrawResult => {
+  const { drawNumber, ...rest } = draw;
+  return { ...rest, id: canonicalDrawId(rest) };
+};
+
+const mergeDivisions = (earlier: DivisionPayout[] = [], later: DivisionPayout[] = []): DivisionPayout[] => {
+  const byDivision = new Map(earlier.map(d => [d.division, d]));
+  later.forEach(d => byDivision.set(d.division, { ...byDivision.get(d.division), ...d }));
+  return [...byDivision.values()].sort((a, b) => a.division - b.division);
+};
+
+/**
+ * Combines two copies of the same draw. The later copy wins field by field: whatever it supplies
+ * replaces the earlier value and whatever it leaves out is kept, so a fuller earlier fetch is never
+ * blanked by a sparser later one. Division payouts merge per division by the same rule, and the
+ * sources cited for each copy are pooled.
+ */
+export const mergeDrawCopies = (earlier: DrawResult, later: DrawResult): DrawResult => {
+  const merged: DrawResult = { ...earlier };
+  const assign = <K extends keyof DrawResult>(field: K) => {
+    const value = later[field];
+    if (value !== undefined && value !== null) merged[field] = value;
+  };
+  (Object.keys(later) as (keyof DrawResult)[]).forEach(assign);
+  if (earlier.divisions || later.divisions) merged.divisions = mergeDivisions(earlier.divisions, later.divisions);
+  if (earlier.provenance && later.provenance) merged.provenance = mergeProvenance(earlier.provenance, later.provenance);
+  return { ...merged, id: canonicalDrawId(merged) };
+};
+
+export const compareDraws = (a: DrawResult, b: DrawResult) =>
+  b.date.localeCompare(a.date) || GAME_ORDER.indexOf(a.game) - GAME_ORDER.indexOf(b.game);
+
+/**
+ * Collapses copies of the same draw and gives every draw its canonical id. Two draws are the same
+ * when they share a game and a date; copies merge in input order with `mergeDrawCopies`, so pass
+ * older fetches first. A draw number claimed by draws on two different dates is a conflict: it
+ * cannot be trusted for either, so those draws keep their date-based ids and lose the number,
+ * and the number is listed in `conflicts`.
+ * The result is sorted newest first, then in `LottoGame` order, so equal inputs always give
+ * equal output.
+ */
+export const dedupeDrawsWithConflicts = (draws: DrawResult[]): { draws: DrawResult[]; conflicts: DrawNumberConflict[] } => {
+  const bySlot = new Map<string, DrawResult>();
+  draws.forEach(draw => {
+    const key = `${draw.game}|${draw.date}`;
+    const earlier = bySlot.get(key);
+    bySlot.set(key, earlier ? mergeDrawCopies(earlier, draw) : { ...draw, id: canonicalDrawId(draw) });
+  });
+
+  const claims = new Map<string, DrawNumberConflict>();
+  bySlot.forEach(draw => {
+    if (draw.drawNumber === undefined || draw.drawNumber === null) return;
+    const key = `${draw.game}#${draw.drawNumber}`;
+    const claim = claims.get(key) || { game: draw.game, drawNumber: draw.drawNumber, dates: [] };
+    claim.dates.push(draw.date);
+    claims.set(key, claim);
+  });
+  const conflicts = [...claims.values()].filter(claim => claim.dates.length > 1);
+
+  return {
+    draws: [...bySlot.values()]
+      .map(draw => conflicts.some(c => c.game === draw.game && c.drawNumber === draw.drawNumber) ? withoutDrawNumber(draw) : draw)
+      .sort(compareDraws),
+    conflicts: conflicts.map(c => ({ ...c, dates: [...c.dates].sort() }))
+  };
+};
+
+/** `dedupeDrawsWithConflicts` for callers that only need the draws. */
+export const dedupeDraws = (draws: DrawResult[]): DrawResult[] => dedupeDrawsWithConflicts(draws).draws;
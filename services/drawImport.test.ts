@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DrawResult, LottoGame } from '../types';
+import { TABLE_HEADERS, exportDraws } from './drawExport';
+import { importDraws } from './drawImport';
+import { writeXlsx } from './xlsx';
+
+const draws: DrawResult[] = [
+  {
+    id: 'powerball-1600',
+    game: LottoGame.POWERBALL,
+    date: '2025-01-03',
+    numbers: [2, 9, 17, 30, 41],
+    powerBall: 12,
+    jackpotAmount: 42_500_000.5,
+    drawNumber: 1600,
+    rollover: true,
+    nextJackpotAmount: 50_000_000,
+    divisions: [{ division: 1, winners: 0, payout: 0 }, { division: 2, winners: 2, payout: 125_000.25 }],
+    provenance: { sources: [{ uri: 'https://www.nationallottery.co.za/results', title: 'nationallottery.co.za' }], official: true, confidence: 0.9 }
+  },
+  // Payouts for the lower divisions are published after the winners are known
+  {
+    id: 'lotto-2025-01-01',
+    game: LottoGame.LOTTO,
+    date: '2025-01-01',
+    numbers: [3, 11, 19, 27, 35, 43],
+    bonusBall: 50,
+    divisions: [{ division: 1, winners: 1, payout: 10_000_000 }, { division: 8, winners: 4021 }]
+  }
+];
+
+const bytes = (content: string | Uint8Array) => (typeof content === 'string' ? new TextEncoder().encode(content) : content);
+
+(['csv', 'xlsx', 'json', 'ndjson'] as const).forEach(format => {
+  test(`draws exported as ${format} import back unchanged`, async () => {
+    const result = await importDraws(`draws.${format}`, bytes(exportDraws(draws, format)));
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.draws, draws);
+  });
+});
+
+test('dates Excel re-saved as serial day numbers still import', async () => {
+  const [header, row] = [TABLE_HEADERS, ['', 'Lotto', 3, 11, 19, 27, 35, 43, 50]];
+  const workbook = writeXlsx([{ name: 'Draws', rows: [header, row.map((cell, i) => (i === 0 ? 45658 : cell))] }]);
+  const result = await importDraws('draws.xlsx', workbook);
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.draws[0].date, '2025-01-01');
+});
+
+test('bad rows are reported by number and the rest still import', async () => {
+  const csv = exportDraws(draws, 'csv') as string;
+  const [header, ...rows] = csv.trim().split('\n');
+  const broken = [header, rows[0], rows[1].replace('"2025-01-01"', '"2025-01-02"')].join('\n');
+  const result = await importDraws('draws.csv', bytes(broken));
+  assert.deepEqual(result.draws.map(d => d.id), ['powerball-1600']);
+  assert.deepEqual(result.errors, [{ row: 3, sheet: undefined, reasons: ['Lotto is not drawn on a Thursday.'] }]);
+});
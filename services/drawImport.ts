@@ -0,0 +1,200 @@
+import { DrawResult } from "../types";
+import { DIVISION_COLUMNS, EXPORT_FORMATS, ExportFormat, TABLE_HEADERS, divisionHeaders } from "./drawExport";
+import { validateDraw } from "./gameRules";
+import { dedupeDraws } from "./drawIdentity";
+import { sourceDomain } from "./provenance";
+import { Cell, readXlsx, serialToIsoDate } from "./xlsx";
+
+export interface ImportRowError {
+  /** 1-based row (CSV/XLSX, counting the header), line (NDJSON) or record (JSON) number. */
+  row: number;
+  sheet?: string;
+  reasons: string[];
+}
+
+export interface ImportResult {
+  draws: DrawResult[];
+  errors: ImportRowError[];
+}
+
+export const detectImportFormat = (fileName: string): ExportFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'jsonl') return 'ndjson';
+  return (Object.keys(EXPORT_FORMATS) as ExportFormat[]).find(f => EXPORT_FORMATS[f].extension === extension) || null;
+};
+
+/**
+ * Splits CSV text into rows of fields, honouring quoted fields with embedded commas, quotes and newlines.
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const toText = (cell: Cell | undefined) => (typeof cell === 'string' ? cell.trim() : cell);
+
+// Excel turns a date column into serial day numbers when it re-saves the file
+const toDate = (cell: Cell | undefined) => (typeof cell === 'number' ? serialToIsoDate(cell) ?? cell : toText(cell));
+
+const toNumber = (cell: Cell | undefined): number | undefined | string => {
+  if (cell === null || cell === undefined || cell === '') return undefined;
+  if (typeof cell === 'number') return cell;
+  const n = Number(cell.trim());
+  return isNaN(n) ? cell : n;
+};
+
+/**
+ * Maps one table row to a raw draw using the header row to find each column.
+ */
+const rowToDraw = (headers: string[], cells: Cell[]): Record<string, unknown> => {
+  const column = (name: string) => cells[headers.indexOf(name.toLowerCase())];
+  const numbers = TABLE_HEADERS
+    .filter(h => h.startsWith('Ball '))
+    .map(h => toNumber(column(h)))
+    .filter(n => n !== undefined);
+
+  const draw: Record<string, unknown> = {
+    date: toDate(column('Date')),
+    game: toText(column('Game')),
+    numbers
+  };
+  const bonusBall = toNumber(column('Bonus Ball'));
+  const powerBall = toNumber(column('PowerBall'));
+  const jackpotAmount = toNumber(column('Jackpot Amount (ZAR)'));
+  if (bonusBall !== undefined) draw.bonusBall = bonusBall;
+  if (powerBall !== undefined) draw.powerBall = powerBall;
+  if (jackpotAmount !== undefined) draw.jackpotAmount = jackpotAmount;
+
+  const drawNumber = toNumber(column('Draw Number'));
+  const nextJackpotAmount = toNumber(column('Next Jackpot (ZAR)'));
+  const rollover = column('Rollover');
+  if (drawNumber !== undefined) draw.drawNumber = drawNumber;
+  if (nextJackpotAmount !== undefined) draw.nextJackpotAmount = nextJackpotAmount;
+  if (rollover !== undefined && rollover !== null && rollover !== '') {
+    const flag = String(rollover).trim().toLowerCase();
+    draw.rollover = flag === 'yes' || flag === 'true' ? true : flag === 'no' || flag === 'false' ? false : rollover;
+  }
+
+  // A division whose payout is not published yet has its winners but a blank payout
+  const divisions = Array.from({ length: DIVISION_COLUMNS }, (_, i) => {
+    const [winnersHeader, payoutHeader] = divisionHeaders(i + 1);
+    const winners = toNumber(column(winnersHeader));
+    const payout = toNumber(column(payoutHeader));
+    if (winners === undefined && payout === undefined) return null;
+    return payout === undefined ? { division: i + 1, winners } : { division: i + 1, winners, payout };
+  }).filter(d => d !== null);
+  if (divisions.length > 0) draw.divisions = divisions;
+
+  // Titles are not exported, so each source is named after its site again
+  const official = column('Official Source');
+  if (official !== undefined && official !== null && official !== '') {
+    const uris = String(column('Sources') ?? '').split(/\s+/).filter(Boolean);
+    const confidence = toNumber(column('Confidence'));
+    draw.provenance = {
+      sources: uris.map(uri => ({ uri, title: sourceDomain({ uri, title: '' }) })),
+      official: String(official).trim().toLowerCase() === 'yes',
+      confidence: typeof confidence === 'number' ? confidence : 0
+    };
+  }
+  return draw;
+};
+
+const tableToRecords = (rows: Cell[][]): { row: number; record: unknown }[] => {
+  const [header, ...body] = rows;
+  const headers = (header || []).map(h => String(h ?? '').trim().toLowerCase());
+  return body
+    .map((cells, i) => ({ row: i + 2, cells }))
+    .filter(({ cells }) => cells.some(c => c !== null && c !== ''))
+    .map(({ row, cells }) => ({ row, record: rowToDraw(headers, cells) }));
+};
+
+/**
+ * Loads draws from a file written by `exportDraws` (or by hand in the same layout).
+ * Every record is checked against its game's rules; bad rows are reported by number
+ * and the rest are returned under canonical ids, duplicates merged with later rows winning.
+ */
+export const importDraws = async (fileName: string, bytes: Uint8Array): Promise<ImportResult> => {
+  const format = detectImportFormat(fileName);
+  if (!format) {
+    return { draws: [], errors: [{ row: 0, reasons: [`Unsupported file type: ${fileName}.`] }] };
+  }
+
+  const records: { row: number; sheet?: string; record: unknown }[] = [];
+  const errors: ImportRowError[] = [];
+  const text = () => new TextDecoder().decode(bytes);
+
+  try {
+    if (format === 'csv') {
+      records.push(...tableToRecords(parseCsv(text())));
+    } else if (format === 'xlsx') {
+      (await readXlsx(bytes)).forEach(sheet => {
+        records.push(...tableToRecords(sheet.rows).map(r => ({ ...r, sheet: sheet.name })));
+      });
+    } else if (format === 'json') {
+      const data = JSON.parse(text());
+      const list = Array.isArray(data) ? data : data?.draws;
+      if (!Array.isArray(list)) throw new Error("Expected an array of draws or an object with a \"draws\" array.");
+      records.push(...list.map((record: unknown, i: number) => ({ row: i + 1, record })));
+    } else {
+      text().split(/\r?\n/).forEach((line, i) => {
+        if (!line.trim()) return;
+        try {
+          records.push({ row: i + 1, record: JSON.parse(line) });
+        } catch {
+          errors.push({ row: i + 1, reasons: ["Line is not valid JSON."] });
+        }
+      });
+    }
+  } catch (err: any) {
+    return { draws: [], errors: [{ row: 0, reasons: [`Could not read ${fileName}: ${err?.message || err}`] }] };
+  }
+
+  const draws: DrawResult[] = [];
+  records.forEach(({ row, sheet, record }) => {
+    const reasons = validateDraw(record);
+    if (reasons.length > 0) {
+      errors.push({ row, sheet, reasons });
+      return;
+    }
+    draws.push(record as DrawResult);
+  });
+
+  return {
+    draws: dedupeDraws(draws),
+    errors: errors.sort((a, b) => (a.sheet || '').localeCompare(b.sheet || '') || a.row - b.row)
+  };
+};
@@ -0,0 +1,36 @@
+import { DrawNight, DrawResult, LottoGame } from "../types";
+import { LINKED_GAMES } from "./gameRules";
+import { isScheduledDrawDate } from "./drawSchedule";
+
+/**
+ * The linked group a game is drawn with. Every game belongs to exactly one group.
+ */
+export const linkedGamesOf = (game: LottoGame): LottoGame[] =>
+  LINKED_GAMES.find(group => group.includes(game)) || [game];
+
+/**
+ * Groups draws into one entry per linked-game group and date, newest first and in `LINKED_GAMES`
+ * order within a date. A night appears once any of its games has a result; siblings scheduled
+ * that night without one are listed as missing.
+ */
+export const groupDrawNights = (draws: DrawResult[]): DrawNight[] => {
+  const nights = new Map<string, DrawNight>();
+
+  draws.forEach(draw => {
+    const games = linkedGamesOf(draw.game);
+    const key = `${games[0]}|${draw.date}`;
+    const night = nights.get(key) || { date: draw.date, games, draws: {}, missing: [] };
+    night.draws[draw.game] = draw;
+    nights.set(key, night);
+  });
+
+  return [...nights.values()]
+    .map(night => ({
+      ...night,
+      missing: night.games.filter(game => !night.draws[game] && isScheduledDrawDate(game, night.date))
+    }))
+    .sort((a, b) =>
+      b.date.localeCompare(a.date) ||
+      LINKED_GAMES.findIndex(g => g === a.games) - LINKED_GAMES.findIndex(g => g === b.games)
+    );
+};
@@ -0,0 +1,139 @@
+import { CombinationCount, DrawFeatureKey, DrawPattern, DrawResult, FeatureBreakdown, GameRules, LottoGame } from "../types";
+import { GAME_RULES } from "./gameRules";
+import { dedupeDraws } from "./drawIdentity";
+
+/** Width of the sum and spread buckets. */
+const SUM_BAND = 20;
+const SPREAD_BAND = 10;
+
+export const FEATURE_LABELS: Record<DrawFeatureKey, string> = {
+  'odd-even': 'Odd / even',
+  'low-high': 'Low / high',
+  sum: 'Sum',
+  spread: 'Spread (highest − lowest)',
+  consecutive: 'Consecutive numbers',
+  decades: 'Decade groups'
+};
+
+const FEATURES = Object.keys(FEATURE_LABELS) as DrawFeatureKey[];
+
+const band = (value: number, width: number) => {
+  const from = Math.floor(value / width) * width;
+  return { bucket: `${from}–${from + width - 1}`, order: from };
+};
+
+/**
+ * The bucket a draw's main balls fall into for each feature, with a number to order buckets by.
+ * High balls are those above the middle of the game's range. Decade groups count balls per ten
+ * (1–9, 10–19, …) and list the counts largest first, so "2-2-1-1" is two pairs and two singles.
+ */
+const featureValues = (draw: DrawResult, rules: GameRules): Record<DrawFeatureKey, { bucket: string; order: number }> => {
+  const balls = [...draw.numbers].sort((a, b) => a - b);
+  const odd = balls.filter(n => n % 2 === 1).length;
+  const low = balls.filter(n => n <= (rules.minNumber + rules.maxNumber) / 2).length;
+
+  let longest = balls.length > 0 ? 1 : 0;
+  let run = 1;
+  balls.forEach((n, i) => {
+    run = i > 0 && n === balls[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const decades = new Map<number, number>();
+  balls.forEach(n => decades.set(Math.floor(n / 10), (decades.get(Math.floor(n / 10)) || 0) + 1));
+  const groups = [...decades.values()].sort((a, b) => b - a);
+
+  return {
+    'odd-even': { bucket: `${odd} odd · ${balls.length - odd} even`, order: odd },
+    'low-high': { bucket: `${low} low · ${balls.length - low} high`, order: low },
+    sum: band(balls.reduce((t, n) => t + n, 0), SUM_BAND),
+    spread: band(balls.length > 0 ? balls[balls.length - 1] - balls[0] : 0, SPREAD_BAND),
+    consecutive: { bucket: longest < 2 ? 'None' : `${longest} in a row`, order: longest },
+    decades: { bucket: groups.join('-'), order: -groups.length }
+  };
+};
+
+export const drawFeatureBucket = (draw: DrawResult, feature: DrawFeatureKey): string =>
+  featureValues(draw, GAME_RULES[draw.game])[feature].bucket;
+
+export const matchesPattern = (draw: DrawResult, pattern: DrawPattern): boolean =>
+  pattern.kind === 'combination'
+    ? pattern.numbers.every(n => draw.numbers.includes(n))
+    : drawFeatureBucket(draw, pattern.feature) === pattern.bucket;
+
+export const patternLabel = (pattern: DrawPattern): string =>
+  pattern.kind === 'combination'
+    ? `Draws with ${pattern.numbers.join(' & ')}`
+    : `${FEATURE_LABELS[pattern.feature]}: ${pattern.bucket}`;
+
+const gameDrawsOf = (game: LottoGame, draws: DrawResult[]) => dedupeDraws(draws.filter(d => d.game === game));
+
+/**
+ * How often each pair of main balls was drawn together in `game`, as a square matrix over the
+ * game's numbers in ascending order. The diagonal holds how often each number was drawn at all.
+ */
+export const coOccurrence = (game: LottoGame, draws: DrawResult[]): { numbers: number[]; counts: number[][] } => {
+  const rules = GAME_RULES[game];
+  const numbers = Array.from({ length: rules.maxNumber - rules.minNumber + 1 }, (_, i) => rules.minNumber + i);
+  const counts = numbers.map(() => new Array<number>(numbers.length).fill(0));
+  gameDrawsOf(game, draws).forEach(draw => {
+    const indices = draw.numbers.map(n => n - rules.minNumber).filter(i => i >= 0 && i < numbers.length);
+    indices.forEach(i => indices.forEach(j => counts[i][j]++));
+  });
+  return { numbers, counts };
+};
+
+const combinations = (items: number[], size: number): number[][] => {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) => combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+};
+
+/**
+ * The `limit` combinations of `size` main balls drawn together most often in `game`. Ties go to
+ * the lower numbers. `expected` is how often a fair draw would produce any one combination.
+ */
+export const topCombinations = (game: LottoGame, draws: DrawResult[], size: number, limit = 10): CombinationCount[] => {
+  const rules = GAME_RULES[game];
+  const gameDraws = gameDrawsOf(game, draws);
+  const counts = new Map<string, number>();
+  gameDraws.forEach(draw => {
+    combinations([...draw.numbers].sort((a, b) => a - b), size).forEach(combo => {
+      const key = combo.join('-');
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  });
+
+  const pool = rules.maxNumber - rules.minNumber + 1;
+  let chance = 1;
+  for (let i = 0; i < size; i++) chance *= (rules.ballCount - i) / (pool - i);
+
+  return [...counts.entries()]
+    .map(([key, count]) => ({ numbers: key.split('-').map(Number), count, expected: gameDraws.length * chance }))
+    .sort((a, b) => b.count - a.count || a.numbers.reduce((d, n, i) => d || n - b.numbers[i], 0))
+    .slice(0, limit);
+};
+
+/**
+ * How `game`'s draws spread over the buckets of every feature. Buckets with no draws are left out.
+ */
+export const featureBreakdowns = (game: LottoGame, draws: DrawResult[]): FeatureBreakdown[] => {
+  const rules = GAME_RULES[game];
+  const values = gameDrawsOf(game, draws).map(draw => featureValues(draw, rules));
+
+  return FEATURES.map(feature => {
+    const buckets = new Map<string, { bucket: string; count: number; order: number }>();
+    values.forEach(v => {
+      const { bucket, order } = v[feature];
+      const entry = buckets.get(bucket) || { bucket, count: 0, order };
+      entry.count += 1;
+      buckets.set(bucket, entry);
+    });
+    return {
+      feature,
+      label: FEATURE_LABELS[feature],
+      buckets: [...buckets.values()]
+        .sort((a, b) => a.order - b.order || b.count - a.count)
+        .map(({ bucket, count }) => ({ bucket, count }))
+    };
+  });
+};
@@ -0,0 +1,67 @@
+import { DrawQuery, DrawResult, DrawSortKey, LottoGame } from "../types";
+import { compareDraws } from "./drawIdentity";
+import { matchesPattern } from "./drawPatterns";
+
+const GAME_ORDER = Object.values(LottoGame);
+
+export const DEFAULT_DRAW_QUERY: DrawQuery = { games: [], numbers: [], sort: { key: 'date', direction: 'desc' } };
+
+/**
+ * Reads a free-text search such as "draws containing 7 and 23" or "2026-02-01 to 2026-02-07".
+ * Whole numbers become balls the draw must contain; one date matches that day and two a range.
+ */
+export const parseDrawSearch = (text: string): Pick<DrawQuery, 'numbers' | 'fromDate' | 'toDate'> => {
+  const dates = (text.match(/\d{4}-\d{2}-\d{2}/g) || []).sort();
+  const numbers = (text.replace(/\d{4}-\d{2}-\d{2}/g, ' ').match(/\b\d{1,2}\b/g) || []).map(Number);
+  return {
+    numbers: [...new Set(numbers)],
+    fromDate: dates[0],
+    toDate: dates[dates.length - 1]
+  };
+};
+
+const ballsOf = (draw: DrawResult) => [
+  ...draw.numbers,
+  ...(typeof draw.bonusBall === 'number' ? [draw.bonusBall] : []),
+  ...(typeof draw.powerBall === 'number' ? [draw.powerBall] : [])
+];
+
+export const matchesDrawQuery = (draw: DrawResult, query: DrawQuery): boolean => {
+  if (query.games.length > 0 && !query.games.includes(draw.game)) return false;
+  if (query.officialOnly && !draw.provenance?.official) return false;
+  if (query.fromDate && draw.date < query.fromDate) return false;
+  if (query.toDate && draw.date > query.toDate) return false;
+  if (query.minJackpot !== undefined || query.maxJackpot !== undefined) {
+    // A range asks about the jackpot, so draws without one never match it
+    const jackpot = draw.jackpotAmount;
+    if (typeof jackpot !== 'number') return false;
+    if (query.minJackpot !== undefined && jackpot < query.minJackpot) return false;
+    if (query.maxJackpot !== undefined && jackpot > query.maxJackpot) return false;
+  }
+  if (query.numbers.length > 0) {
+    const balls = ballsOf(draw);
+    if (!query.numbers.every(n => balls.includes(n))) return false;
+  }
+  if (query.pattern && !matchesPattern(draw, query.pattern)) return false;
+  return true;
+};
+
+const SORTS: Record<DrawSortKey, (a: DrawResult, b: DrawResult) => number> = {
+  date: (a, b) => a.date.localeCompare(b.date),
+  game: (a, b) => GAME_ORDER.indexOf(a.game) - GAME_ORDER.indexOf(b.game),
+  jackpot: (a, b) => (a.jackpotAmount ?? 0) - (b.jackpotAmount ?? 0)
+};
+
+/**
+ * The draws matching `query`, in its order. Ties fall back to newest first, then `LottoGame`
+ * order; draws without a jackpot sort after the rest whichever way jackpots are sorted.
+ */
+export const applyDrawQuery = (draws: DrawResult[], query: DrawQuery): DrawResult[] => {
+  const { key, direction } = query.sort;
+  const sign = direction === 'asc' ? 1 : -1;
+  const noJackpot = (d: DrawResult) => (key === 'jackpot' && !d.jackpotAmount ? 1 : 0);
+
+  return draws
+    .filter(draw => matchesDrawQuery(draw, query))
+    .sort((a, b) => noJackpot(a) - noJackpot(b) || sign * SORTS[key](a, b) || compareDraws(a, b));
+};
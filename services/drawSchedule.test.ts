@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LottoGame } from '../types';
+import { buildCoverageReport, expectedDrawDates } from './drawSchedule';
+
+test('Lotto is drawn on Wednesdays and Saturdays', () => {
+  assert.deepEqual(expectedDrawDates(LottoGame.LOTTO, '2025-01-01', '2025-01-08'), ['2025-01-01', '2025-01-04', '2025-01-08']);
+});
+
+test('only accepted draws fill a scheduled date; rejected ones still show off-schedule dates', () => {
+  const report = buildCoverageReport(
+    [{ game: LottoGame.LOTTO, date: '2025-01-01' }],
+    '2025-01-01',
+    '2025-01-08',
+    [LottoGame.LOTTO],
+    [{ game: LottoGame.LOTTO, date: '2025-01-04' }, { game: LottoGame.LOTTO, date: '2025-01-05' }]
+  );
+  assert.deepEqual(report.games, [{
+    game: LottoGame.LOTTO,
+    expectedCount: 3,
+    foundCount: 1,
+    missingDates: ['2025-01-04', '2025-01-08'],
+    unexpectedDates: ['2025-01-05']
+  }]);
+});
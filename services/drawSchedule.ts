@@ -0,0 +1,104 @@
+import { CoverageReport, DrawResult, DrawSchedule, LottoGame } from "../types";
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+const WEDNESDAY_SATURDAY = [3, 6];
+const TUESDAY_FRIDAY = [2, 5];
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const schedule = (game: LottoGame, drawDays: number[], description: string): DrawSchedule => ({
+  game,
+  drawDays,
+  description
+});
+
+export const DRAW_SCHEDULES: Record<LottoGame, DrawSchedule> = {
+  [LottoGame.DAILY_LOTTO]: schedule(LottoGame.DAILY_LOTTO, EVERY_DAY, 'Every day'),
+  [LottoGame.DAILY_LOTTO_PLUS]: schedule(LottoGame.DAILY_LOTTO_PLUS, EVERY_DAY, 'Every day'),
+  [LottoGame.LOTTO]: schedule(LottoGame.LOTTO, WEDNESDAY_SATURDAY, 'Wednesday & Saturday'),
+  [LottoGame.LOTTO_PLUS_1]: schedule(LottoGame.LOTTO_PLUS_1, WEDNESDAY_SATURDAY, 'Wednesday & Saturday'),
+  [LottoGame.LOTTO_PLUS_2]: schedule(LottoGame.LOTTO_PLUS_2, WEDNESDAY_SATURDAY, 'Wednesday & Saturday'),
+  [LottoGame.POWERBALL]: schedule(LottoGame.POWERBALL, TUESDAY_FRIDAY, 'Tuesday & Friday'),
+  [LottoGame.POWERBALL_PLUS]: schedule(LottoGame.POWERBALL_PLUS, TUESDAY_FRIDAY, 'Tuesday & Friday')
+};
+
+/**
+ * Parses a strict YYYY-MM-DD string as a UTC date, or returns null if it is not a real calendar day.
+ */
+export const parseDrawDate = (date: unknown): Date | null => {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) return null;
+  return parsed;
+};
+
+/**
+ * Lists every YYYY-MM-DD date between `startDate` and `endDate` (inclusive).
+ */
+export const listDates = (startDate: string, endDate: string): string[] => {
+  const start = parseDrawDate(startDate);
+  const end = parseDrawDate(endDate);
+  if (!start || !end) return [];
+
+  const dates: string[] = [];
+  for (const day = new Date(start); day <= end; day.setUTCDate(day.getUTCDate() + 1)) {
+    dates.push(day.toISOString().slice(0, 10));
+  }
+  return dates;
+};
+
+export const isScheduledDrawDate = (game: LottoGame, date: string): boolean => {
+  const parsed = parseDrawDate(date);
+  return parsed !== null && DRAW_SCHEDULES[game].drawDays.includes(parsed.getUTCDay());
+};
+
+/**
+ * The first date after `date` on which `game` is drawn, or null if `date` is not a valid date.
+ */
+export const nextDrawDate = (game: LottoGame, date: string): string | null => {
+  const day = parseDrawDate(date);
+  if (!day) return null;
+  do {
+    day.setUTCDate(day.getUTCDate() + 1);
+  } while (!DRAW_SCHEDULES[game].drawDays.includes(day.getUTCDay()));
+  return day.toISOString().slice(0, 10);
+};
+
+/**
+ * Lists the dates in the range on which `game` is drawn.
+ */
+export const expectedDrawDates = (game: LottoGame, startDate: string, endDate: string): string[] =>
+  listDates(startDate, endDate).filter(date => isScheduledDrawDate(game, date));
+
+/**
+ * Compares fetched draws against the calendar for every game, listing scheduled dates with no
+ * accepted result and results on dates the game is not drawn. Rejected draws never fill a
+ * scheduled date, but they are checked for unexpected dates: an off-schedule result is usually a
+ * hallucinated one, and validation will have turned it away.
+ */
+export const buildCoverageReport = (
+  draws: Pick<DrawResult, 'game' | 'date'>[],
+  startDate: string,
+  endDate: string,
+  games: LottoGame[] = Object.values(LottoGame),
+  rejected: Pick<DrawResult, 'game' | 'date'>[] = []
+): CoverageReport => ({
+  startDate,
+  endDate,
+  games: games.map(game => {
+    const expected = expectedDrawDates(game, startDate, endDate);
+    const datesOf = (list: Pick<DrawResult, 'game' | 'date'>[]) =>
+      list.filter(d => d.game === game && d.date >= startDate && d.date <= endDate).map(d => d.date);
+    const found = new Set(datesOf(draws));
+    const missingDates = expected.filter(date => !found.has(date));
+    const unexpectedDates = [...new Set([...found, ...datesOf(rejected)])].filter(date => !isScheduledDrawDate(game, date)).sort();
+
+    return {
+      game,
+      expectedCount: expected.length,
+      foundCount: expected.length - missingDates.length,
+      missingDates,
+      unexpectedDates
+    };
+  })
+});
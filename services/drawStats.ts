@@ -0,0 +1,58 @@
+import { DrawResult, GameStats, LottoGame, NumberStat } from "../types";
+import { GAME_RULES } from "./gameRules";
+import { dedupeDraws } from "./drawIdentity";
+
+/** How many numbers the hot and cold lists hold. */
+export const HOT_COLD_SIZE = 6;
+
+const range = (min: number, max: number) => Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+/**
+ * Counts each number's appearances across `draws`, which must be sorted newest first
+ * so the position of the first hit gives the draws since it was last seen.
+ */
+const tally = (numbers: number[], draws: DrawResult[], pick: (draw: DrawResult) => number[]): NumberStat[] => {
+  const stats = new Map<number, NumberStat>(numbers.map(n => [n, { number: n, count: 0, drawsSinceSeen: null }]));
+  draws.forEach((draw, index) => {
+    pick(draw).forEach(n => {
+      const stat = stats.get(n);
+      if (!stat) return;
+      stat.count += 1;
+      if (stat.drawsSinceSeen === null) stat.drawsSinceSeen = index;
+    });
+  });
+  return numbers.map(n => stats.get(n)!);
+};
+
+/**
+ * Builds main-ball and bonus/PowerBall statistics for one game from whichever of `draws` belong to it.
+ * Copies of the same draw are counted once.
+ */
+export const computeGameStats = (game: LottoGame, draws: DrawResult[]): GameStats => {
+  const rules = GAME_RULES[game];
+  const gameDraws = dedupeDraws(draws.filter(d => d.game === game));
+
+  const main = tally(range(rules.minNumber, rules.maxNumber), gameDraws, d => d.numbers);
+  const bonus = rules.bonus === 'none'
+    ? []
+    : tally(range(rules.bonusMin, rules.bonusMax), gameDraws, d => {
+        const value = d[rules.bonus as 'bonusBall' | 'powerBall'];
+        return value === undefined || value === null ? [] : [value];
+      });
+
+  // Ties are broken by recency, so the hottest of equals is the one seen most recently
+  const bySince = (a: NumberStat, b: NumberStat) =>
+    (a.drawsSinceSeen ?? Infinity) - (b.drawsSinceSeen ?? Infinity);
+  const hot = [...main].sort((a, b) => b.count - a.count || bySince(a, b)).slice(0, HOT_COLD_SIZE);
+  const cold = [...main].sort((a, b) => a.count - b.count || bySince(b, a)).slice(0, HOT_COLD_SIZE);
+
+  return { game, drawCount: gameDraws.length, main, bonus, hot, cold };
+};
+
+/**
+ * Statistics for every game that has at least one draw in `draws`, in `LottoGame` order.
+ */
+export const computeAllStats = (draws: DrawResult[]): GameStats[] =>
+  Object.values(LottoGame)
+    .filter(game => draws.some(d => d.game === game))
+    .map(game => computeGameStats(game, draws));
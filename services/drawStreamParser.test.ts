@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDrawStreamParser } from './drawStreamParser';
+
+const reply = '{"draws": [{"game": "Lotto", "date": "2025-01-04"}, {"game": "Lotto", "date": "2025-01-01", "note": "a } in a string"}, {"game": "Lotto", "da';
+
+test('returns each draw once as soon as its object closes, however the reply is split', () => {
+  const parser = createDrawStreamParser();
+  const seen = [...reply].flatMap(char => parser.push(char));
+  assert.deepEqual(seen, [
+    { game: 'Lotto', date: '2025-01-04' },
+    { game: 'Lotto', date: '2025-01-01', note: 'a } in a string' }
+  ]);
+});
+
+test('a reply that broke off keeps the complete draws and counts the one cut short', () => {
+  const parser = createDrawStreamParser();
+  const salvaged = parser.push(reply);
+  assert.equal(salvaged.length, 2);
+  assert.equal(parser.dropped(), 1);
+  assert.equal(reply.slice(0, parser.completeEnd()).endsWith('string"}'), true);
+  assert.deepEqual(parser.spans().map(({ start, end }) => JSON.parse(reply.slice(start, end))), salvaged);
+});
+
+test('reads a bare array and skips objects nested inside a draw', () => {
+  const parser = createDrawStreamParser();
+  const draws = parser.push('[{"game": "Daily Lotto", "divisions": [{"division": 1}]}]');
+  assert.deepEqual(draws, [{ game: 'Daily Lotto', divisions: [{ division: 1 }] }]);
+  assert.equal(parser.dropped(), 0);
+});
@@ -0,0 +1,67 @@
+/**
+ * Pulls draw objects out of a JSON reply while it is still arriving. Text is fed in as it
+ * streams; every object that closes inside the top-level "draws" array (or a bare top-level
+ * array) is parsed and returned once, so rows can be shown before the reply is finished.
+ * The whole text is kept for the final parse, which remains the source of truth. When that parse
+ * fails, the parser's counts say how much of the reply was usable and where it broke off. Each
+ * object's place in the text is kept so grounding citations can be matched to it.
+ */
+export const createDrawStreamParser = () => {
+  let text = '';
+  let pos = 0;
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+  let completeEnd = 0;
+  let dropped = 0;
+  const spans: { start: number; end: number }[] = [];
+
+  const push = (chunk: string): unknown[] => {
+    text += chunk;
+    const complete: unknown[] = [];
+
+    for (; pos < text.length; pos++) {
+      const char = text[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        // An object opened directly inside the draws array (depth 2) or a bare array (depth 1)
+        if (char === '{' && stack[stack.length - 1] === '[' && stack.length <= 2) objectStart = pos;
+        stack.push(char);
+      } else if (char === '}' || char === ']') {
+        stack.pop();
+        if (char === '}' && objectStart >= 0 && stack[stack.length - 1] === '[' && stack.length <= 2) {
+          try {
+            complete.push(JSON.parse(text.slice(objectStart, pos + 1)));
+            completeEnd = pos + 1;
+            spans.push({ start: objectStart, end: completeEnd });
+          } catch {
+            dropped += 1;
+          }
+          objectStart = -1;
+        }
+      }
+    }
+    return complete;
+  };
+
+  return {
+    push,
+    /** Everything received so far. */
+    text: () => text,
+    /** Offset just past the last object that parsed. */
+    completeEnd: () => completeEnd,
+    /** Objects that closed but did not parse, plus one still open when the text ran out. */
+    dropped: () => dropped + (objectStart >= 0 ? 1 : 0),
+    /** Where each returned object sits in the text, in the order they were returned. */
+    spans: () => [...spans]
+  };
+};
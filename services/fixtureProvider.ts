@@ -0,0 +1,38 @@
+import { ResultProvider, ResultSource } from "../types";
+import { buildScrapedResult } from "./resultProviders";
+import { isRecord } from "./gameRules";
+import sampleDraws from "../fixtures/sample-draws.json";
+
+interface FixtureFile {
+  draws: unknown[];
+  sources?: unknown;
+}
+
+const isFixtureFile = (value: unknown): value is FixtureFile => isRecord(value) && Array.isArray(value.draws);
+
+const isResultSource = (value: unknown): value is ResultSource =>
+  isRecord(value) && typeof value.uri === 'string' && typeof value.title === 'string';
+
+/**
+ * Serves draws from a JSON fixture, either `{ "draws": [...], "sources": [...] }` or a bare array of draws.
+ * Lets the app be developed and demoed without an API key or network.
+ */
+export const createFixtureProvider = (fixture: unknown, label: string = 'Fixture File'): ResultProvider => {
+  const raw: unknown[] = Array.isArray(fixture) ? fixture : isFixtureFile(fixture) ? fixture.draws : [];
+  const sources: ResultSource[] = isFixtureFile(fixture) && Array.isArray(fixture.sources) ? fixture.sources.filter(isResultSource) : [];
+
+  return {
+    id: 'fixture',
+    label,
+    archived: false,
+    fetchDraws: async (startDate, endDate, games) => {
+      if (raw.length === 0) {
+        return { draws: [], sources, rejected: [], errorDetail: "The fixture file contains no draws." };
+      }
+      return buildScrapedResult(raw, sources, startDate, endDate, games);
+    }
+  };
+};
+
+/** The bundled sample fixture. Its numbers are generated, not official results. */
+export const sampleFixtureProvider = createFixtureProvider(sampleDraws, 'Sample Fixture');
@@ -0,0 +1,229 @@
+import { DrawResult, GameRules, LottoGame, PrizeDivisionRule, RejectedDraw } from "../types";
+import { DAY_NAMES, isScheduledDrawDate, parseDrawDate } from "./drawSchedule";
+
+const prizeDivision = (division: number, mainMatches: number, bonusRequired = false): PrizeDivisionRule => ({
+  division,
+  mainMatches,
+  bonusRequired
+});
+
+const dailyLottoRules = (game: LottoGame, boardPrice: number): GameRules => ({
+  game,
+  boardPrice,
+  ballCount: 5,
+  minNumber: 1,
+  maxNumber: 36,
+  bonus: 'none',
+  bonusMin: 0,
+  bonusMax: 0,
+  bonusFromMainDrum: false,
+  divisions: [prizeDivision(1, 5), prizeDivision(2, 4), prizeDivision(3, 3), prizeDivision(4, 2)]
+});
+
+const lottoRules = (game: LottoGame, boardPrice: number): GameRules => ({
+  game,
+  boardPrice,
+  ballCount: 6,
+  minNumber: 1,
+  maxNumber: 58,
+  bonus: 'bonusBall',
+  bonusMin: 1,
+  bonusMax: 58,
+  bonusFromMainDrum: true,
+  divisions: [
+    prizeDivision(1, 6),
+    prizeDivision(2, 5, true),
+    prizeDivision(3, 5),
+    prizeDivision(4, 4, true),
+    prizeDivision(5, 4),
+    prizeDivision(6, 3, true),
+    prizeDivision(7, 3),
+    prizeDivision(8, 2, true)
+  ]
+});
+
+const powerBallRules = (game: LottoGame, boardPrice: number): GameRules => ({
+  game,
+  boardPrice,
+  ballCount: 5,
+  minNumber: 1,
+  maxNumber: 50,
+  bonus: 'powerBall',
+  bonusMin: 1,
+  bonusMax: 20,
+  bonusFromMainDrum: false,
+  divisions: [
+    prizeDivision(1, 5, true),
+    prizeDivision(2, 5),
+    prizeDivision(3, 4, true),
+    prizeDivision(4, 4),
+    prizeDivision(5, 3, true),
+    prizeDivision(6, 3),
+    prizeDivision(7, 2, true),
+    prizeDivision(8, 1, true),
+    prizeDivision(9, 0, true)
+  ]
+});
+
+export const GAME_RULES: Record<LottoGame, GameRules> = {
+  [LottoGame.DAILY_LOTTO]: dailyLottoRules(LottoGame.DAILY_LOTTO, 3),
+  [LottoGame.DAILY_LOTTO_PLUS]: dailyLottoRules(LottoGame.DAILY_LOTTO_PLUS, 1.5),
+  [LottoGame.LOTTO]: lottoRules(LottoGame.LOTTO, 5),
+  [LottoGame.LOTTO_PLUS_1]: lottoRules(LottoGame.LOTTO_PLUS_1, 2.5),
+  [LottoGame.LOTTO_PLUS_2]: lottoRules(LottoGame.LOTTO_PLUS_2, 2.5),
+  [LottoGame.POWERBALL]: powerBallRules(LottoGame.POWERBALL, 5),
+  [LottoGame.POWERBALL_PLUS]: powerBallRules(LottoGame.POWERBALL_PLUS, 2.5)
+};
+
+/**
+ * Games that share a draw night. Each group is drawn together, so it can be requested together.
+ */
+export const LINKED_GAMES: LottoGame[][] = [
+  [LottoGame.DAILY_LOTTO, LottoGame.DAILY_LOTTO_PLUS],
+  [LottoGame.LOTTO, LottoGame.LOTTO_PLUS_1, LottoGame.LOTTO_PLUS_2],
+  [LottoGame.POWERBALL, LottoGame.POWERBALL_PLUS]
+];
+
+/**
+ * Identifies a draw by game and date, the one pairing every source agrees on.
+ */
+export const drawKey = (draw: Pick<DrawResult, 'game' | 'date'>) => `${draw.game}|${draw.date}`;
+
+/**
+ * A readable id for draws whose source did not supply one, e.g. "lotto-plus-1-2026-02-04".
+ */
+export const makeDrawId = (game: LottoGame, date: string) => `${game}-${date}`.toLowerCase().replace(/\s+/g, '-');
+
+/** Whether a value parsed from an untrusted source is an object whose fields can be inspected. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isLottoGame = (value: unknown): value is LottoGame =>
+  Object.values(LottoGame).includes(value as LottoGame);
+
+const isPresent = (value: unknown) => value !== undefined && value !== null;
+
+const inRange = (n: unknown, min: number, max: number): n is number =>
+  typeof n === 'number' && Number.isInteger(n) && n >= min && n <= max;
+
+/**
+ * Checks a single draw against its game's rules. Returns an empty list when the draw is valid.
+ */
+export const validateDraw = (draw: unknown): string[] => {
+  if (!isRecord(draw)) return ["Draw is not an object."];
+
+  if (!isLottoGame(draw.game)) {
+    return [`Unknown game "${draw.game}".`];
+  }
+
+  const rules = GAME_RULES[draw.game];
+  const reasons: string[] = [];
+
+  const { date: dateText } = draw;
+  const date = parseDrawDate(dateText);
+  if (!date || typeof dateText !== 'string') {
+    reasons.push(`Invalid date "${dateText}".`);
+  } else if (!isScheduledDrawDate(rules.game, dateText)) {
+    reasons.push(`${rules.game} is not drawn on a ${DAY_NAMES[date.getUTCDay()]}.`);
+  }
+
+  if (!Array.isArray(draw.numbers)) {
+    reasons.push("Missing winning numbers.");
+  } else {
+    const numbers: unknown[] = draw.numbers;
+    if (numbers.length !== rules.ballCount) {
+      reasons.push(`Expected ${rules.ballCount} numbers, got ${numbers.length}.`);
+    }
+    const outOfRange = numbers.filter(n => !inRange(n, rules.minNumber, rules.maxNumber));
+    if (outOfRange.length > 0) {
+      reasons.push(`Numbers out of range ${rules.minNumber}-${rules.maxNumber}: ${outOfRange.join(', ')}.`);
+    }
+    const duplicates = numbers.filter((n, i) => numbers.indexOf(n) !== i);
+    if (duplicates.length > 0) {
+      reasons.push(`Duplicate numbers: ${duplicates.join(', ')}.`);
+    }
+  }
+
+  if (rules.bonus !== 'bonusBall' && isPresent(draw.bonusBall)) {
+    reasons.push(`${rules.game} has no bonus ball.`);
+  }
+  if (rules.bonus !== 'powerBall' && isPresent(draw.powerBall)) {
+    reasons.push(`${rules.game} has no PowerBall.`);
+  }
+  if (rules.bonus !== 'none') {
+    const label = rules.bonus === 'bonusBall' ? 'Bonus ball' : 'PowerBall';
+    const value = draw[rules.bonus];
+    if (!isPresent(value)) {
+      reasons.push(`${label} is missing.`);
+    } else if (!inRange(value, rules.bonusMin, rules.bonusMax)) {
+      reasons.push(`${label} ${value} is out of range ${rules.bonusMin}-${rules.bonusMax}.`);
+    } else if (rules.bonusFromMainDrum && Array.isArray(draw.numbers) && draw.numbers.includes(value)) {
+      reasons.push(`${label} ${value} repeats a main ball.`);
+    }
+  }
+
+  if (isPresent(draw.jackpotAmount) && !(typeof draw.jackpotAmount === 'number' && draw.jackpotAmount >= 0)) {
+    reasons.push(`Invalid jackpot amount "${draw.jackpotAmount}".`);
+  }
+  if (isPresent(draw.nextJackpotAmount) && !(typeof draw.nextJackpotAmount === 'number' && draw.nextJackpotAmount >= 0)) {
+    reasons.push(`Invalid next jackpot amount "${draw.nextJackpotAmount}".`);
+  }
+  if (isPresent(draw.drawNumber) && !inRange(draw.drawNumber, 1, Number.MAX_SAFE_INTEGER)) {
+    reasons.push(`Invalid draw number "${draw.drawNumber}".`);
+  }
+  if (isPresent(draw.rollover) && typeof draw.rollover !== 'boolean') {
+    reasons.push(`Invalid rollover flag "${draw.rollover}".`);
+  }
+
+  if (isPresent(draw.divisions)) {
+    if (!Array.isArray(draw.divisions)) {
+      reasons.push("Divisions must be a list.");
+    } else {
+      const seen = new Set<number>();
+      const divisions: unknown[] = draw.divisions;
+      divisions.forEach(d => {
+        const division = isRecord(d) ? d.division : undefined;
+        if (!isRecord(d) || !inRange(division, 1, rules.divisions.length)) {
+          reasons.push(`${rules.game} has no prize division "${division}".`);
+          return;
+        }
+        if (seen.has(division)) reasons.push(`Division ${division} is listed twice.`);
+        seen.add(division);
+        if (isPresent(d.payout) && !(typeof d.payout === 'number' && d.payout >= 0)) {
+          reasons.push(`Invalid division ${division} payout "${d.payout}".`);
+        }
+        if (!inRange(d.winners, 0, Number.MAX_SAFE_INTEGER)) {
+          reasons.push(`Invalid division ${division} winner count "${d.winners}".`);
+        }
+      });
+      const first = divisions.find(d => isRecord(d) && d.division === 1);
+      const jackpotWinners = isRecord(first) ? first.winners : undefined;
+      if (typeof draw.rollover === 'boolean' && typeof jackpotWinners === 'number' && draw.rollover !== (jackpotWinners === 0)) {
+        reasons.push(draw.rollover
+          ? `Marked as a rollover but division 1 has ${jackpotWinners} winner(s).`
+          : "Marked as won but division 1 has no winners.");
+      }
+    }
+  }
+
+  return reasons;
+};
+
+/**
+ * Splits raw draws into those that satisfy their game's rules and those that do not.
+ */
+export const validateDraws = (draws: unknown[]): { accepted: DrawResult[]; rejected: RejectedDraw[] } => {
+  const accepted: DrawResult[] = [];
+  const rejected: RejectedDraw[] = [];
+
+  draws.forEach(draw => {
+    const reasons = validateDraw(draw);
+    if (reasons.length === 0) {
+      accepted.push(draw as DrawResult);
+    } else {
+      rejected.push({ draw: (draw && typeof draw === 'object' ? draw : {}) as Partial<DrawResult>, reasons });
+    }
+  });
+
+  return { accepted, rejected };
+};
@@ -1,89 +1,191 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { LottoGame, LotteryDataResponse } from "../types";
+import { GenerateContentResponse, GoogleGenAI, GroundingSupport, Type } from "@google/genai";
+import { DrawProvenance, DrawResult, FetchOptions, LottoGame, LotteryDataResponse, RepairReport, ResultProvider, ResultSource, ScrapedResult } from "../types";
+import { drawKey, isRecord, validateDraws } from "./gameRules";
+import { dedupeDraws } from "./drawIdentity";
+import { DEFAULT_RETRY_POLICY, RetryPolicy, ScrapeFailure, retryWithBackoff } from "./retryPolicy";
+import { createDrawStreamParser } from "./drawStreamParser";
+import { SourceSupport, attributeSupports, mergeProvenance, scoreProvenance } from "./provenance";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+let ai: GoogleGenAI | null = null;
 
-export interface ScrapedResult extends LotteryDataResponse {
-  sources: { uri: string; title: string }[];
-  errorDetail?: string;
-}
+// Created on first use so headless callers can set the key after importing this module
+const getClient = () => ai || (ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' }));
+
+const cleanJsonString = (str: string): string => {
+  let cleaned = str.trim();
+  if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+  }
+  // Remove trailing commas before closing brackets
+  return cleaned.replace(/,\s*([\]}])/g, '$1');
+};
 
 /**
- * Attempts to repair a truncated JSON string by balancing brackets and braces.
+ * Describes how much of a broken reply was saved and which part of the range it never reached.
+ * Records usually come in date order, so whichever way the recovered dates run, the rest of the
+ * range lies beyond the last good one. That date is included again, as its other games may be lost.
+ * When nothing recovered falls inside the range, none of it was reached.
  */
-const fixTruncatedJson = (json: string): string => {
-  const stack: string[] = [];
-  let isInsideString = false;
-  let escaped = false;
-
-  for (let i = 0; i < json.length; i++) {
-    const char = json[i];
-    if (char === '"' && !escaped) {
-      isInsideString = !isInsideString;
-    }
-    escaped = char === '\\' && !escaped;
-
-    if (!isInsideString) {
-      if (char === '{' || char === '[') {
-        stack.push(char === '{' ? '}' : ']');
-      } else if (char === '}' || char === ']') {
-        if (stack.length > 0 && stack[stack.length - 1] === char) {
-          stack.pop();
-        }
-      }
-    }
-  }
+const repairReport = (
+  recovered: unknown[],
+  parser: ReturnType<typeof createDrawStreamParser>,
+  startDate: string,
+  endDate: string
+): RepairReport => {
+  const dates = recovered
+    .map(d => (isRecord(d) ? d.date : undefined))
+    .filter((date): date is string => typeof date === 'string' && date >= startDate && date <= endDate);
+  const report: RepairReport = { recovered: recovered.length, dropped: parser.dropped(), cutOffAt: parser.completeEnd() };
+  if (dates.length === 0) return { ...report, remaining: { startDate, endDate } };
 
-  let repaired = json;
-  // If we ended inside a string, close it
-  if (isInsideString) {
-    repaired += '"';
-  }
-  
-  // Close any open objects/arrays in reverse order
-  while (stack.length > 0) {
-    const closer = stack.pop();
-    repaired += closer;
-  }
+  const lastGoodDate = dates[dates.length - 1];
+  const descending = dates[0] > lastGoodDate;
+  return {
+    ...report,
+    lastGoodDate,
+    remaining: descending ? { startDate, endDate: lastGoodDate } : { startDate: lastGoodDate, endDate }
+  };
+};
 
-  return repaired;
+/**
+ * Orders the division breakdown and fills in the rollover flag from division 1 when the
+ * response left it out. Anything malformed is left as-is for validation to reject.
+ */
+const completeDraw = (draw: DrawResult): DrawResult => {
+  if (!Array.isArray(draw.divisions)) return draw;
+  const divisions = [...draw.divisions].sort((a, b) => a?.division - b?.division);
+  const jackpotWinners = divisions.find(d => d?.division === 1)?.winners;
+  const rollover = draw.rollover ?? (typeof jackpotWinners === 'number' ? jackpotWinners === 0 : undefined);
+  return rollover === undefined ? { ...draw, divisions } : { ...draw, divisions, rollover };
 };
 
-const cleanJsonString = (str: string): string => {
-  let cleaned = str.trim();
-  if (cleaned.startsWith('```')) {
-    cleaned = cleaned.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+/**
+ * Sorts a thrown SDK or network error into a `ScrapeFailure`. Quota errors carry the server's
+ * suggested wait, either as a RetryInfo "retryDelay" in the body or as "retry in Ns" in the text.
+ */
+const classifyError = (error: any): ScrapeFailure => {
+  if (error instanceof ScrapeFailure) return error;
+  if (error?.name === 'AbortError') return new ScrapeFailure('cancelled', "Cancelled.");
+  const message: string = error?.message || String(error);
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : Number(message.match(/"code":\s*(\d{3})/)?.[1]) || undefined;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    const seconds = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)?.[1] || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i)?.[1];
+    return new ScrapeFailure(
+      'rate-limit',
+      "Gemini quota or rate limit reached.",
+      seconds ? Math.ceil(Number(seconds) * 1000) : undefined
+    );
   }
-  // Remove trailing commas before closing brackets
-  cleaned = cleaned.replace(/,\s*([\]}])/g, '$1');
-  
-  // Try parsing. If it fails, try to fix truncation.
-  try {
-    JSON.parse(cleaned);
-    return cleaned;
-  } catch (e) {
-    return fixTruncatedJson(cleaned);
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID/i.test(message)) {
+    return new ScrapeFailure('missing-key', "The Gemini API key was rejected.");
   }
+  if (status !== undefined && status >= 400 && status < 500) {
+    return new ScrapeFailure('network', `Gemini refused the request (${status}).`, undefined, false);
+  }
+  return new ScrapeFailure('network', status ? `Gemini is unavailable (${status}).` : "Could not reach Gemini.");
 };
 
-export const generateLotteryData = async (startDate: string, endDate: string): Promise<ScrapedResult> => {
-  if (!process.env.API_KEY) {
-    return { draws: [], sources: [], errorDetail: "API Key is missing." };
-  }
+type CitedSupport = Pick<GroundingSupport, 'segment' | 'confidenceScores'> & { sources: ResultSource[] };
+
+/**
+ * Adds the chunk's grounding sources to `into` and its supports, with their chunk indices
+ * resolved to sources, to `supports`. Indices refer to the chunk list sent alongside them.
+ */
+const collectSources = (response: GenerateContentResponse, into: ResultSource[], supports: CitedSupport[]) => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const groundingChunks = metadata?.groundingChunks || [];
+  const chunkSources = groundingChunks.map(chunk => (chunk.web?.uri ? { uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri } : undefined));
+  chunkSources.forEach(source => {
+    if (source && !into.some(s => s.uri === source.uri)) into.push(source);
+  });
+  metadata?.groundingSupports?.forEach(support => {
+    const sources = (support.groundingChunkIndices || [])
+      .map(i => chunkSources[i])
+      .filter((source): source is ResultSource => source !== undefined);
+    if (sources.length > 0) supports.push({ segment: support.segment, confidenceScores: support.confidenceScores, sources });
+  });
+};
 
-  // Optimized prompt: shorter, focus on data density
+/**
+ * Places each support in the reply text. Segment offsets count UTF-8 bytes, so they are turned
+ * into character offsets; a segment without offsets is found by its text.
+ */
+const locateSupports = (text: string, supports: CitedSupport[]): SourceSupport[] => {
+  const bytes = new TextEncoder().encode(text);
+  const decoder = new TextDecoder();
+  const toChar = (byteOffset: number) => decoder.decode(bytes.slice(0, byteOffset)).length;
+
+  return supports.flatMap(({ segment, confidenceScores, sources }) => {
+    let start: number;
+    let end: number;
+    if (segment?.endIndex !== undefined) {
+      start = toChar(segment.startIndex ?? 0);
+      end = toChar(segment.endIndex);
+    } else {
+      start = segment?.text ? text.indexOf(segment.text) : -1;
+      if (start < 0) return [];
+      end = start + segment!.text!.length;
+    }
+    return [{ start, end, sources, scores: confidenceScores || [] }];
+  });
+};
+
+/**
+ * The provenance of every record in the reply, keyed by `drawKey`. Records that repeat a draw
+ * pool their citations.
+ */
+const provenanceByDraw = (
+  records: unknown[],
+  parser: ReturnType<typeof createDrawStreamParser>,
+  supports: CitedSupport[]
+): Map<string, DrawProvenance> => {
+  const located = locateSupports(parser.text(), supports);
+  const spans = parser.spans();
+  const byDraw = new Map<string, DrawProvenance>();
+  records.forEach((record, i) => {
+    const { game, date } = (record || {}) as Partial<DrawResult>;
+    if (typeof game !== 'string' || typeof date !== 'string' || !spans[i]) return;
+    const key = drawKey({ game: game as LottoGame, date });
+    const provenance = attributeSupports(spans[i], located);
+    const earlier = byDraw.get(key);
+    byDraw.set(key, earlier ? mergeProvenance(earlier, provenance) : provenance);
+  });
+  return byDraw;
+};
+
+const prepareDraws = (raw: unknown[]) => validateDraws(raw.map(d => (d && typeof d === 'object' ? completeDraw(d as DrawResult) : d)));
+
+/**
+ * One streamed request to Gemini. Valid draws are handed to `onArrived` as each object completes;
+ * the finished reply is then parsed as a whole. Throws a `ScrapeFailure` for anything short of a
+ * usable list of draws.
+ */
+const requestDraws = async (
+  startDate: string,
+  endDate: string,
+  games: LottoGame[],
+  onArrived: (draws: DrawResult[]) => void,
+  signal?: AbortSignal
+): Promise<ScrapedResult> => {
+  // Optimized prompt: shorter, focus on data density. Callers keep each request small enough to finish.
   const prompt = `Return ONLY a JSON object for SA Lotto results (${startDate} to ${endDate}).
   Sources: nationallottery.co.za, za.national-lottery.com.
-  Schema: {"draws": [{"id":string,"game":string,"date":"YYYY-MM-DD","numbers":[int],"bonusBall":int,"powerBall":int,"jackpotAmount":number}]}
-  Games: Daily Lotto, Daily Lotto Plus, Lotto, Lotto Plus 1, Lotto Plus 2, PowerBall, PowerBall Plus.
-  Limit: Max 40 most recent draws to ensure completion.`;
+  Schema: {"draws": [{"game":string,"date":"YYYY-MM-DD","drawNumber":int,"numbers":[int],"bonusBall":int,"powerBall":int,"jackpotAmount":number,"rollover":bool,"nextJackpotAmount":number,"divisions":[{"division":int,"payout":number,"winners":int}]}]}
+  Games: ${games.join(', ')}.
+  Include every draw of these games in the range, with each prize division's payout per winner (ZAR) and winner count.`;
 
+  const parser = createDrawStreamParser();
+  const streamed: unknown[] = [];
+  const sources: ResultSource[] = [];
+  const supports: CitedSupport[] = [];
   try {
-    const response = await ai.models.generateContent({
+    const stream = await getClient().models.generateContentStream({
       model: 'gemini-3-flash-preview',
       contents: prompt,
       config: {
+        abortSignal: signal,
         tools: [{ googleSearch: {} }],
         responseMimeType: "application/json",
         responseSchema: {
@@ -94,15 +196,29 @@ export const generateLotteryData = async (startDate: string, endDate: string): P
               items: {
                 type: Type.OBJECT,
                 properties: {
-                  id: { type: Type.STRING },
                   game: { type: Type.STRING, enum: Object.values(LottoGame) },
                   date: { type: Type.STRING },
                   numbers: { type: Type.ARRAY, items: { type: Type.INTEGER } },
                   bonusBall: { type: Type.INTEGER },
                   powerBall: { type: Type.INTEGER },
-                  jackpotAmount: { type: Type.NUMBER }
+                  jackpotAmount: { type: Type.NUMBER },
+                  drawNumber: { type: Type.INTEGER },
+                  rollover: { type: Type.BOOLEAN },
+                  nextJackpotAmount: { type: Type.NUMBER },
+                  divisions: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        division: { type: Type.INTEGER },
+                        payout: { type: Type.NUMBER },
+                        winners: { type: Type.INTEGER }
+                      },
+                      required: ["division", "payout", "winners"]
+                    }
+                  }
                 },
-                required: ["id", "game", "date", "numbers"]
+                required: ["game", "date", "numbers"]
               }
             }
           }
@@ -110,42 +226,92 @@ export const generateLotteryData = async (startDate: string, endDate: string): P
       }
     });
 
-    const sources: { uri: string; title: string }[] = [];
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (groundingChunks) {
-      groundingChunks.forEach((chunk: any) => {
-        if (chunk.web) {
-          sources.push({ uri: chunk.web.uri, title: chunk.web.title });
-        }
-      });
+    for await (const chunk of stream) {
+      collectSources(chunk, sources, supports);
+      const complete = parser.push(chunk.text || '');
+      streamed.push(...complete);
+      const { accepted } = prepareDraws(complete);
+      if (accepted.length > 0) onArrived(accepted);
     }
+  } catch (error) {
+    throw signal?.aborted ? new ScrapeFailure('cancelled', "Cancelled.") : classifyError(error);
+  }
 
-    const rawText = response.text || '{"draws": []}';
-    const cleanedText = cleanJsonString(rawText);
+  // Citations arrive with the last chunks, so draws get their provenance once the reply is complete
+  const provenance = provenanceByDraw(streamed, parser, supports);
+  const withProvenance = (draws: DrawResult[]) =>
+    draws.map(d => ({ ...d, provenance: provenance.get(drawKey(d)) || scoreProvenance([], []) }));
 
-    try {
-      const data = JSON.parse(cleanedText) as LotteryDataResponse;
-      if (data.draws && Array.isArray(data.draws)) {
-        // Filter out any entries that might be incomplete due to repair
-        const validDraws = data.draws.filter(d => d && d.game && d.date && Array.isArray(d.numbers));
-        validDraws.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-        return { draws: validDraws, sources };
-      }
-      return { draws: [], sources };
-    } catch (parseError) {
-      console.error("Critical JSON Parse Error:", parseError);
-      return { 
-        draws: [], 
-        sources, 
-        errorDetail: "Data stream was interrupted. Try a smaller date range." 
-      };
+  const rawText = parser.text() || '{"draws": []}';
+  const cleanedText = cleanJsonString(rawText);
+
+  let data: LotteryDataResponse;
+  try {
+    data = JSON.parse(cleanedText);
+  } catch (parseError) {
+    // Keep every record that arrived whole; the caller can ask again for the rest of the range
+    if (streamed.length === 0) {
+      throw new ScrapeFailure('truncated', "Data stream was interrupted before any draw was complete.");
+    }
+    const repair = repairReport(streamed, parser, startDate, endDate);
+    const { accepted, rejected } = prepareDraws(streamed);
+    return { draws: withProvenance(dedupeDraws(accepted)), sources, rejected, repair };
+  }
+  if (!data || !Array.isArray(data.draws)) {
+    throw new ScrapeFailure('schema', "Gemini's reply did not contain a list of draws.");
+  }
+
+  // Rejects entries that break their game's rules.
+  // The model's own ids are discarded in favour of canonical ones.
+  const { accepted, rejected } = prepareDraws(data.draws);
+  if (accepted.length === 0 && rejected.length === 0) {
+    throw new ScrapeFailure('empty', `No results came back for ${startDate} to ${endDate}.`);
+  }
+  return { draws: withProvenance(dedupeDraws(accepted)), sources, rejected };
+};
+
+/**
+ * Fetches the requested games' draws for a date range, streaming them to `options.onDraws` as they
+ * arrive and retrying transient failures with backoff. Never throws: a failure or cancellation
+ * comes back as `error` and `errorDetail`, alongside whichever valid draws streamed in first.
+ */
+export const generateLotteryData = async (
+  startDate: string,
+  endDate: string,
+  games: LottoGame[] = Object.values(LottoGame),
+  options: FetchOptions = {},
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<ScrapedResult> => {
+  // Kept across retries so a draw that streamed in before a failure is not lost
+  let arrived: DrawResult[] = [];
+  const onArrived = (draws: DrawResult[]) => {
+    const fresh = draws.filter(d => !arrived.some(a => a.game === d.game && a.date === d.date));
+    arrived = dedupeDraws([...arrived, ...draws]);
+    if (fresh.length > 0) options.onDraws?.(dedupeDraws(fresh));
+  };
+
+  try {
+    if (!process.env.API_KEY) {
+      throw new ScrapeFailure('missing-key', "API Key is missing.");
+    }
+    return await retryWithBackoff(
+      () => requestDraws(startDate, endDate, games, onArrived, options.signal),
+      policy,
+      undefined,
+      options.signal
+    );
+  } catch (err) {
+    const error = classifyError(err).toScrapeError();
+    if (error.kind !== 'cancelled') {
+      console.error("Scraping error:", err instanceof ScrapeFailure ? `${err.kind}: ${err.message}` : err);
     }
-  } catch (error: any) {
-    console.error("Scraping error:", error);
-    return { 
-      draws: [], 
-      sources: [], 
-      errorDetail: error.message?.includes("429") ? "Too many requests. Slow down." : "Connection failed." 
-    };
+    return { draws: arrived, sources: [], rejected: [], errorDetail: error.message, error };
   }
 };
+
+export const geminiProvider: ResultProvider = {
+  id: 'gemini',
+  label: 'Gemini Search',
+  archived: true,
+  fetchDraws: generateLotteryData
+};
@@ -0,0 +1,175 @@
+import { DrawResult, LottoGame, ResultProvider, ResultSource } from "../types";
+import { GAME_RULES } from "./gameRules";
+import { canonicalDrawId } from "./drawIdentity";
+import { buildScrapedResult } from "./resultProviders";
+
+export interface SavedPage {
+  /** File name or URL the page was saved from; shown as the result source. */
+  name: string;
+  html: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Longest names first so "Lotto Plus 1" is never read as "Lotto"
+const GAME_NAMES = Object.values(LottoGame).sort((a, b) => b.length - a.length);
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const VOID_TAGS = /^<(area|base|br|col|embed|hr|img|input|link|meta|source|track|wbr)\b/i;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Reads the date formats the official site and its mirrors use:
+ * "2026-02-04", "2026/02/04", "04/02/2026" and "Wednesday, 04 February 2026".
+ */
+export const parsePageDate = (text: string): string | null => {
+  let m = text.match(/\b(\d{4})[-/](\d{1,2})[-/](\d{1,2})\b/);
+  if (m) return `${m[1]}-${pad(+m[2])}-${pad(+m[3])}`;
+
+  m = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+  if (m) return `${m[3]}-${pad(+m[2])}-${pad(+m[1])}`;
+
+  m = text.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3})[a-z]*,?\s+(\d{4})\b/i);
+  if (m && MONTHS.includes(m[2].toLowerCase())) {
+    return `${m[3]}-${pad(MONTHS.indexOf(m[2].toLowerCase()) + 1)}-${pad(+m[1])}`;
+  }
+  return null;
+};
+
+/**
+ * Reads a rand amount such as "R 45 000 000", "R45,000,000.00" or "R12.5 Million".
+ */
+export const parseRandAmount = (text: string): number | null => {
+  const m = text.match(/R\s?([\d\s,]+(?:\.\d+)?)\s*(million|m\b)?/i);
+  if (!m) return null;
+  const value = parseFloat(m[1].replace(/[\s,]/g, ''));
+  if (isNaN(value)) return null;
+  return m[2] ? Math.round(value * 1_000_000) : value;
+};
+
+const matchGameName = (text: string): LottoGame | null => {
+  const normalised = text.toLowerCase().replace(/\s+results?$/, '');
+  return GAME_NAMES.find(name => normalised === name.toLowerCase()) || null;
+};
+
+/** A draw as read so far: game, date and numbers from the start, the rest as the page supplies it. */
+type ParsedDraw = Partial<DrawResult> & Pick<DrawResult, 'game' | 'date' | 'numbers'>;
+
+/**
+ * Extracts draw records from a saved nationallottery.co.za results page (or a mirror with
+ * the same markup). The page is read as a stream of tags and text: a game heading starts a
+ * draw, a date sets its date, and any element whose class mentions "ball" contributes a
+ * number. Balls classed "bonus" or "power" (or any ball past the main count) are the bonus
+ * ball or PowerBall. The output is unvalidated; `buildScrapedResult` sorts good from bad.
+ */
+export const parseOfficialResultsHtml = (html: string): unknown[] => {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, '');
+
+  const draws: ParsedDraw[] = [];
+  let current: ParsedDraw | null = null;
+  let game: LottoGame | null = null;
+  // Classes of the elements enclosing the current text, innermost last
+  const classStack: string[] = [];
+  let expectJackpot = false;
+
+  const finish = () => {
+    if (current && current.numbers.length > 0) draws.push(current);
+    current = null;
+  };
+  const start = (date?: string) => {
+    finish();
+    if (game) {
+      current = { game, date: date || '', numbers: [] };
+    }
+  };
+
+  for (const [token] of body.matchAll(/<[^>]+>|[^<]+/g)) {
+    if (token.startsWith('<')) {
+      if (token.startsWith('</')) {
+        classStack.pop();
+      } else if (!token.endsWith('/>') && !VOID_TAGS.test(token)) {
+        const cls = token.match(/class\s*=\s*["']([^"']*)["']/i);
+        classStack.push(cls ? cls[1].toLowerCase() : '');
+      }
+      continue;
+    }
+
+    const text = decodeEntities(token);
+    if (!text) continue;
+
+    const gameName = matchGameName(text);
+    if (gameName) {
+      game = gameName;
+      start();
+      continue;
+    }
+    if (!current) {
+      if (!game) continue;
+      start();
+    }
+
+    const ballClass = classStack.filter(cls => cls.includes('ball')).join(' ');
+    if (ballClass && /^\d{1,2}$/.test(text)) {
+      const n = Number(text);
+      const rules = GAME_RULES[current.game];
+      const isBonus = /bonus|power/.test(ballClass) || current.numbers.length >= rules.ballCount;
+      if (isBonus && rules.bonus !== 'none') {
+        current[rules.bonus] = n;
+      } else {
+        current.numbers.push(n);
+      }
+      continue;
+    }
+
+    const date = parsePageDate(text);
+    if (date) {
+      if (current.date && current.numbers.length > 0) start(date);
+      else current.date = date;
+      continue;
+    }
+
+    if (/jackpot/i.test(text)) expectJackpot = true;
+    const amount = expectJackpot ? parseRandAmount(text) : null;
+    if (amount !== null) {
+      current.jackpotAmount = amount;
+      expectJackpot = false;
+    }
+  }
+  finish();
+
+  return draws.map(d => ({ ...d, id: canonicalDrawId(d) }));
+};
+
+/**
+ * Serves draws parsed from official results pages saved to disk, so results can be
+ * loaded without an API key.
+ */
+export const createHtmlProvider = (pages: SavedPage[]): ResultProvider => {
+  const raw = pages.flatMap(page => parseOfficialResultsHtml(page.html));
+  const sources: ResultSource[] = pages.map(page => ({ uri: page.name, title: `Saved page: ${page.name}` }));
+
+  return {
+    id: 'html',
+    label: 'Saved Results Pages',
+    archived: false,
+    fetchDraws: async (startDate, endDate, games) => {
+      if (pages.length === 0) {
+        return { draws: [], sources: [], rejected: [], errorDetail: "Load one or more saved results pages first." };
+      }
+      if (raw.length === 0) {
+        return { draws: [], sources, rejected: [], errorDetail: "No draws could be read from the saved pages." };
+      }
+      return buildScrapedResult(raw, sources, startDate, endDate, games);
+    }
+  };
+};
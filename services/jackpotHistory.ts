@@ -0,0 +1,105 @@
+import { DrawResult, JackpotHistory, JackpotOutcome, JackpotPoint, JackpotProjection, LottoGame, RolloverStreak } from "../types";
+import { dedupeDraws } from "./drawIdentity";
+import { nextDrawDate } from "./drawSchedule";
+
+/** Estimated jackpots are rounded to this, as the published ones are. */
+const ESTIMATE_ROUNDING = 10000;
+
+const hasJackpot = (draw: DrawResult): draw is DrawResult & { jackpotAmount: number } =>
+  typeof draw.jackpotAmount === 'number' && draw.jackpotAmount > 0;
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * A draw rolled over when its flag says so; without a flag, a larger jackpot next time means it
+ * rolled over and a smaller one means it was won and reset.
+ */
+const outcomeOf = (draw: DrawResult & { jackpotAmount: number }, nextAmount?: number): JackpotOutcome => {
+  if (typeof draw.rollover === 'boolean') return draw.rollover ? 'rollover' : 'won';
+  if (nextAmount === undefined || nextAmount === draw.jackpotAmount) return 'unknown';
+  return nextAmount > draw.jackpotAmount ? 'rollover' : 'won';
+};
+
+/**
+ * Every run of consecutive rollovers, oldest first.
+ */
+const rolloverStreaks = (points: JackpotPoint[]): RolloverStreak[] => {
+  const streaks: RolloverStreak[] = [];
+  let current: RolloverStreak | null = null;
+  points.forEach(point => {
+    if (point.outcome !== 'rollover') {
+      current = null;
+      return;
+    }
+    if (current) {
+      current.length += 1;
+      current.to = point.date;
+    } else {
+      current = { length: 1, from: point.date, to: point.date };
+      streaks.push(current);
+    }
+  });
+  return streaks;
+};
+
+/**
+ * The next draw's jackpot: the amount announced with the latest draw, or else the latest jackpot
+ * plus the average rollover increase, or after a win the average amount a jackpot restarts at.
+ * A latest draw of unknown outcome is assumed to have rolled over, as most draws do.
+ */
+const project = (game: LottoGame, points: JackpotPoint[], latest: DrawResult): JackpotProjection | null => {
+  const last = points[points.length - 1];
+  const date = nextDrawDate(game, last.date);
+  if (!date) return null;
+
+  if (typeof latest.nextJackpotAmount === 'number' && latest.nextJackpotAmount > 0) {
+    return { date, amount: latest.nextJackpotAmount, basis: 'announced' };
+  }
+
+  const rolledOver = last.outcome !== 'won';
+  const samples = points.slice(0, -1).flatMap((point, i) => {
+    const next = points[i + 1];
+    if (rolledOver) {
+      return point.outcome === 'rollover' && next.amount > point.amount ? [next.amount - point.amount] : [];
+    }
+    return point.outcome === 'won' ? [next.amount] : [];
+  });
+  if (samples.length === 0) return null;
+
+  const estimate = rolledOver ? last.amount + average(samples) : average(samples);
+  return { date, amount: Math.round(estimate / ESTIMATE_ROUNDING) * ESTIMATE_ROUNDING, basis: 'estimated' };
+};
+
+/**
+ * Charts one game's jackpot across `draws`: each draw with a jackpot marked as a rollover or a win,
+ * the longest and current rollover streaks, and a projection of the next draw's jackpot.
+ */
+export const computeJackpotHistory = (game: LottoGame, draws: DrawResult[]): JackpotHistory => {
+  const gameDraws = dedupeDraws(draws.filter(d => d.game === game)).filter(hasJackpot).reverse();
+
+  const points: JackpotPoint[] = gameDraws.map((draw, i) => ({
+    date: draw.date,
+    drawNumber: draw.drawNumber,
+    amount: draw.jackpotAmount,
+    outcome: outcomeOf(draw, gameDraws[i + 1]?.jackpotAmount ?? draw.nextJackpotAmount)
+  }));
+
+  const streaks = rolloverStreaks(points);
+  const longestStreak = streaks.reduce<RolloverStreak | null>(
+    (longest, streak) => (!longest || streak.length >= longest.length ? streak : longest),
+    null
+  );
+  const last = points[points.length - 1];
+  const currentStreak = last?.outcome === 'rollover' ? streaks[streaks.length - 1] : null;
+  const projection = last ? project(game, points, gameDraws[gameDraws.length - 1]) : null;
+
+  return { game, points, longestStreak, currentStreak, projection };
+};
+
+/**
+ * Jackpot histories for every game with at least one jackpot in `draws`, in `LottoGame` order.
+ */
+export const computeAllJackpotHistories = (draws: DrawResult[]): JackpotHistory[] =>
+  Object.values(LottoGame)
+    .filter(game => draws.some(d => d.game === game && hasJackpot(d)))
+    .map(game => computeJackpotHistory(game, draws));
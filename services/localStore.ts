@@ -0,0 +1,20 @@
+/**
+ * Small JSON records kept in localStorage. Reads fall back when storage is unavailable or the
+ * stored value is unreadable; failed writes are logged rather than thrown.
+ */
+export const readStored = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeStored = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Could not save ${key}`, err);
+  }
+};
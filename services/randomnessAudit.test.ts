@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DrawResult, LottoGame } from '../types';
+import { GAME_RULES } from './gameRules';
+import { createRandom } from './backtest';
+import { SUSPICIOUS_P, UNUSUAL_P, auditGame } from './randomnessAudit';
+
+/** `count` fair draws of `game`, balls sorted as sources list them, newest first as stored. */
+const fairDraws = (game: LottoGame, count: number, seed: number): DrawResult[] => {
+  const rules = GAME_RULES[game];
+  const random = createRandom(seed);
+  return Array.from({ length: count }, (_, i) => {
+    const pool = Array.from({ length: rules.maxNumber - rules.minNumber + 1 }, (_, j) => rules.minNumber + j);
+    const balls = Array.from({ length: rules.ballCount + 1 }, () => pool.splice(Math.floor(random() * pool.length), 1)[0]);
+    const draw: DrawResult = {
+      id: `${game}-${i}`,
+      game,
+      date: new Date(Date.UTC(2020, 0, 1 + i)).toISOString().slice(0, 10),
+      numbers: balls.slice(0, rules.ballCount).sort((a, b) => a - b)
+    };
+    if (rules.bonus === 'bonusBall') draw.bonusBall = balls[rules.ballCount];
+    if (rules.bonus === 'powerBall') draw.powerBall = rules.bonusMin + Math.floor(random() * (rules.bonusMax - rules.bonusMin + 1));
+    return draw;
+  }).reverse();
+};
+
+// Any one fair sample fails a test at p < 0.05 one time in twenty, so check the rate over many
+test('fair draws with sorted balls are flagged at about the nominal rate', () => {
+  const samples = 50;
+  [LottoGame.LOTTO, LottoGame.DAILY_LOTTO, LottoGame.POWERBALL].forEach(game => {
+    const flagged = new Map<string, number>();
+    for (let seed = 0; seed < samples; seed++) {
+      auditGame(game, fairDraws(game, 200, seed)).tests.forEach(t => {
+        assert.ok(t.pValue !== null, `${game} ${t.name} did not run`);
+        if (t.pValue < UNUSUAL_P) flagged.set(t.name, (flagged.get(t.name) || 0) + 1);
+      });
+    }
+    flagged.forEach((count, name) => assert.ok(count / samples <= 0.15, `${game} ${name} flagged ${count} of ${samples} fair samples`));
+  });
+});
+
+test('draws that alternate between mostly odd and mostly even fail the odd/even runs test', () => {
+  const draws = fairDraws(LottoGame.LOTTO, 200, 7).map((draw, i) => ({
+    ...draw,
+    numbers: i % 2 === 0 ? [1, 3, 5, 7, 9, 10] : [2, 4, 6, 8, 11, 12]
+  }));
+  const runs = auditGame(LottoGame.LOTTO, draws).tests.find(t => t.kind === 'odd-even-runs')!;
+  assert.ok(runs.pValue! < SUSPICIOUS_P);
+});
@@ -0,0 +1,344 @@
+import { AuditBin, AuditTest, DrawResult, GameAudit, GameRules, LottoGame } from "../types";
+import { GAME_RULES } from "./gameRules";
+import { dedupeDraws } from "./drawIdentity";
+
+/** Below this expected count per category a χ² p-value is no longer trustworthy. */
+const MIN_EXPECTED = 5;
+
+/** Fewer draws than this leave a test with little power to detect a bias. */
+export const MIN_AUDIT_DRAWS = 30;
+
+/** p-values below these are flagged: unusual at the first, suspicious at the second. */
+export const UNUSUAL_P = 0.05;
+export const SUSPICIOUS_P = 0.01;
+
+export type AuditVerdict = 'consistent' | 'unusual' | 'suspicious' | 'untested';
+
+export const auditVerdict = (pValue: number | null): AuditVerdict =>
+  pValue === null ? 'untested' : pValue < SUSPICIOUS_P ? 'suspicious' : pValue < UNUSUAL_P ? 'unusual' : 'consistent';
+
+// Lanczos approximation, accurate to about 15 digits for x > 0
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + LANCZOS.length - 1.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+/**
+ * The regularized upper incomplete gamma function Q(a, x), by its series below a + 1 and its
+ * continued fraction above.
+ */
+const upperGamma = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    d = Math.abs(d) < tiny ? tiny : d;
+    c = b + an / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.min(1, h * Math.exp(logPrefix));
+};
+
+/** Chance that a χ² variable with `df` degrees of freedom exceeds `statistic`. */
+export const chiSquarePValue = (statistic: number, df: number) => upperGamma(df / 2, statistic / 2);
+
+/** Two-sided chance that a standard normal variable lies further from zero than `z`. */
+export const normalPValue = (z: number) => upperGamma(0.5, (z * z) / 2);
+
+const chiSquare = (bins: AuditBin[]) => bins.reduce((sum, b) => sum + (b.expected > 0 ? (b.observed - b.expected) ** 2 / b.expected : 0), 0);
+
+const range = (min: number, max: number) => Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const smallSampleWarnings = (drawCount: number, bins: AuditBin[]) => [
+  ...(drawCount < MIN_AUDIT_DRAWS ? [`Only ${plural(drawCount, 'draw')}; at least ${MIN_AUDIT_DRAWS} are needed for the test to detect much.`] : []),
+  ...(bins.some(b => b.expected < MIN_EXPECTED) ? [`Some categories expect fewer than ${MIN_EXPECTED}, so the χ² approximation is rough.`] : [])
+];
+
+const untested = (test: Omit<AuditTest, 'pValue' | 'bins' | 'warnings'>, reason: string): AuditTest => ({
+  ...test,
+  pValue: null,
+  bins: [],
+  warnings: [reason]
+});
+
+/**
+ * χ² goodness of fit of how often each number came up. A draw's main balls are taken without
+ * replacement, so the counts vary less than a multinomial's; scaling the statistic by
+ * (N − 1) / (N − k) restores its χ²(N − 1) distribution. The bonus ball and PowerBall are one
+ * per draw and need no scaling.
+ */
+const frequencyTest = (rules: GameRules, draws: DrawResult[], bonus: boolean): AuditTest => {
+  const [min, max] = bonus ? [rules.bonusMin, rules.bonusMax] : [rules.minNumber, rules.maxNumber];
+  const picked = draws.map(d => (bonus ? [d[rules.bonus as 'bonusBall' | 'powerBall']].filter((n): n is number => typeof n === 'number') : d.numbers));
+  const sampled = picked.filter(balls => balls.length > 0).length;
+  const perDraw = bonus ? 1 : rules.ballCount;
+  const numbers = range(min, max);
+  const counts = new Map(numbers.map(n => [n, 0]));
+  picked.flat().forEach(n => counts.has(n) && counts.set(n, counts.get(n)! + 1));
+  const bins = numbers.map(n => ({ label: String(n), observed: counts.get(n)!, expected: (sampled * perDraw) / numbers.length }));
+
+  const ball = bonus ? (rules.bonus === 'powerBall' ? 'PowerBall' : 'Bonus ball') : 'Main ball';
+  const base = {
+    kind: bonus ? 'bonus-frequency' as const : 'frequency' as const,
+    name: `${ball} frequency`,
+    description: `Whether every ${ball.toLowerCase()} from ${min} to ${max} comes up equally often.`,
+    statisticName: 'χ²' as const,
+    degreesOfFreedom: numbers.length - 1,
+    sampleSize: sampled * perDraw
+  };
+  if (sampled === 0) return untested(base, 'No draws to count.');
+
+  const statistic = chiSquare(bins) * (bonus ? 1 : (numbers.length - 1) / (numbers.length - perDraw));
+  return { ...base, statistic, pValue: chiSquarePValue(statistic, base.degreesOfFreedom), bins, warnings: smallSampleWarnings(sampled, bins) };
+};
+
+/**
+ * The chance of each count 0..k of "first kind" balls in one draw of k from a drum of N holding
+ * K of that kind: the hypergeometric distribution.
+ */
+const hypergeometric = (N: number, K: number, k: number): number[] => {
+  const logChoose = (n: number, r: number) => (r < 0 || r > n ? -Infinity : logGamma(n + 1) - logGamma(r + 1) - logGamma(n - r + 1));
+  return range(0, k).map(x => Math.exp(logChoose(K, x) + logChoose(N - K, k - x) - logChoose(N, k)));
+};
+
+/**
+ * Wald–Wolfowitz runs test on the draws in order, oldest first. Each draw is classed by how many
+ * of its main balls are of the first kind (odd, say): above the hypergeometric median or below
+ * it, with draws on the median left out. Balls within a draw are not used in sequence, since
+ * sources list them sorted. Too few runs means draws of one kind cluster; too many means they
+ * alternate.
+ */
+const runsTest = (
+  kind: 'odd-even-runs' | 'high-low-runs',
+  rules: GameRules,
+  draws: DrawResult[],
+  labels: [string, string],
+  isFirst: (n: number) => boolean
+): AuditTest => {
+  const pool = rules.maxNumber - rules.minNumber + 1;
+  const probabilities = hypergeometric(pool, range(rules.minNumber, rules.maxNumber).filter(isFirst).length, rules.ballCount);
+  let cumulative = 0;
+  const median = probabilities.findIndex(p => (cumulative += p) >= 0.5);
+
+  const sequence = [...draws]
+    .reverse()
+    .map(d => d.numbers.filter(isFirst).length)
+    .filter(count => count !== median)
+    .map(count => count > median);
+  const n1 = sequence.filter(Boolean).length;
+  const n2 = sequence.length - n1;
+  const n = sequence.length;
+  const [first, second] = labels.map(l => l.toLowerCase());
+  const base = {
+    kind,
+    name: `${labels[0]}/${labels[1]} runs`,
+    description: `Whether draws with more ${first} balls than usual (over ${median} of ${rules.ballCount}) and those with fewer follow each other in random order, neither clustering nor alternating.`,
+    statisticName: 'z' as const,
+    sampleSize: n
+  };
+  if (n1 === 0 || n2 === 0) return untested(base, `Needs draws both above and below ${median} ${first} balls.`);
+
+  const runs = sequence.reduce((count, value, i) => count + (i === 0 || value !== sequence[i - 1] ? 1 : 0), 0);
+  const expected = (2 * n1 * n2) / n + 1;
+  const variance = (2 * n1 * n2 * (2 * n1 * n2 - n)) / (n * n * (n - 1));
+  const statistic = variance > 0 ? (runs - expected) / Math.sqrt(variance) : 0;
+  const drawsTested = draws.length;
+  return {
+    ...base,
+    statistic,
+    pValue: normalPValue(statistic),
+    bins: [
+      { label: `Mostly ${first}`, observed: n1, expected: drawsTested * probabilities.slice(median + 1).reduce((t, p) => t + p, 0) },
+      { label: `Mostly ${second}`, observed: n2, expected: drawsTested * probabilities.slice(0, median).reduce((t, p) => t + p, 0) },
+      { label: 'Runs', observed: runs, expected }
+    ],
+    warnings: [
+      ...(draws.length < MIN_AUDIT_DRAWS ? [`Only ${plural(draws.length, 'draw')}; at least ${MIN_AUDIT_DRAWS} are needed for the test to detect much.`] : []),
+      ...(Math.min(n1, n2) < 10 ? ["Fewer than 10 draws on one side of the median, so the normal approximation is rough."] : [])
+    ]
+  };
+};
+
+/**
+ * The exact distribution of the sum of `count` distinct numbers from min..max, as probabilities
+ * indexed by sum.
+ */
+const sumDistribution = (min: number, max: number, count: number): number[] => {
+  const maxSum = count * max;
+  // ways[c][s]: sets of c numbers seen so far that add up to s
+  const ways = Array.from({ length: count + 1 }, () => new Array<number>(maxSum + 1).fill(0));
+  ways[0][0] = 1;
+  for (let n = min; n <= max; n++) {
+    for (let c = count; c >= 1; c--) {
+      for (let s = maxSum - n; s >= 0; s--) {
+        if (ways[c - 1][s]) ways[c][s + n] += ways[c - 1][s];
+      }
+    }
+  }
+  const total = ways[count].reduce((sum, w) => sum + w, 0);
+  return ways[count].map(w => w / total);
+};
+
+/**
+ * χ² test of the sum of each draw's main balls against its exact distribution, in up to ten bins
+ * of equal probability so every bin expects at least five draws.
+ */
+const sumTest = (rules: GameRules, draws: DrawResult[]): AuditTest => {
+  const base = {
+    kind: 'sum' as const,
+    name: 'Sum of main balls',
+    description: `Whether the totals of each draw's ${rules.ballCount} main balls follow the distribution a fair draw gives.`,
+    statisticName: 'χ²' as const,
+    sampleSize: draws.length
+  };
+  const binCount = Math.min(10, Math.floor(draws.length / MIN_EXPECTED));
+  if (binCount < 2) return untested(base, `Needs at least ${2 * MIN_EXPECTED} draws.`);
+
+  const probabilities = sumDistribution(rules.minNumber, rules.maxNumber, rules.ballCount);
+  const ranges: { from: number; to: number; probability: number }[] = [];
+  let from = -1;
+  let cumulative = 0;
+  probabilities.forEach((p, sum) => {
+    if (p === 0) return;
+    if (from < 0) from = sum;
+    cumulative += p;
+    if (cumulative >= (ranges.length + 1) / binCount - 1e-12) {
+      ranges.push({ from, to: sum, probability: cumulative - ranges.reduce((t, r) => t + r.probability, 0) });
+      from = -1;
+    }
+  });
+  if (from >= 0) ranges[ranges.length - 1].to = probabilities.length - 1;
+
+  const sums = draws.map(d => d.numbers.reduce((t, n) => t + n, 0));
+  const bins = ranges.map(r => ({
+    label: r.from === r.to ? String(r.from) : `${r.from}–${r.to}`,
+    observed: sums.filter(s => s >= r.from && s <= r.to).length,
+    expected: r.probability * draws.length
+  }));
+  const meanSum = probabilities.reduce((t, p, sum) => t + p * sum, 0);
+  const observedMean = sums.reduce((t, s) => t + s, 0) / sums.length;
+  const statistic = chiSquare(bins);
+  return {
+    ...base,
+    description: `${base.description} Mean ${observedMean.toFixed(1)} against ${meanSum.toFixed(1)} expected.`,
+    statistic,
+    degreesOfFreedom: bins.length - 1,
+    pValue: chiSquarePValue(statistic, bins.length - 1),
+    bins,
+    warnings: smallSampleWarnings(draws.length, bins)
+  };
+};
+
+/**
+ * Gap test: the draws between one appearance of a number and its next. Each draw includes a given
+ * number with chance k / N, so gaps should be geometric. Gaps from every number are pooled and
+ * binned by length, with one open-ended bin for the long tail.
+ */
+const gapTest = (rules: GameRules, draws: DrawResult[]): AuditTest => {
+  const p = rules.ballCount / (rules.maxNumber - rules.minNumber + 1);
+  const lastSeen = new Map<number, number>();
+  const gaps: number[] = [];
+  [...draws].reverse().forEach((draw, index) => {
+    draw.numbers.forEach(n => {
+      const previous = lastSeen.get(n);
+      if (previous !== undefined) gaps.push(index - previous - 1);
+      lastSeen.set(n, index);
+    });
+  });
+
+  const base = {
+    kind: 'gaps' as const,
+    name: 'Gap lengths',
+    description: "Whether the number of draws a ball sits out between appearances matches what chance predicts.",
+    statisticName: 'χ²' as const,
+    sampleSize: gaps.length
+  };
+  const total = gaps.length;
+  // Single-length bins while each, and the tail after it, still expects enough gaps
+  let tailFrom = 0;
+  while (tailFrom < 19 && total * p * (1 - p) ** tailFrom >= MIN_EXPECTED && total * (1 - p) ** (tailFrom + 1) >= MIN_EXPECTED) tailFrom++;
+  if (tailFrom < 1) return untested(base, "Too few repeat appearances to measure gaps.");
+
+  const bins: AuditBin[] = range(0, tailFrom - 1).map(g => ({
+    label: String(g),
+    observed: gaps.filter(x => x === g).length,
+    expected: total * p * (1 - p) ** g
+  }));
+  bins.push({ label: `${tailFrom}+`, observed: gaps.filter(x => x >= tailFrom).length, expected: total * (1 - p) ** tailFrom });
+  const statistic = chiSquare(bins);
+  return {
+    ...base,
+    statistic,
+    degreesOfFreedom: bins.length - 1,
+    pValue: chiSquarePValue(statistic, bins.length - 1),
+    bins,
+    warnings: smallSampleWarnings(draws.length, bins)
+  };
+};
+
+/**
+ * Runs every fairness test on one game's draws in `draws`. Copies of the same draw count once.
+ * Each p-value is the chance a fair draw would look at least this uneven; with several tests per
+ * game, a few below 0.05 are expected by chance alone.
+ */
+export const auditGame = (game: LottoGame, draws: DrawResult[]): GameAudit => {
+  const rules = GAME_RULES[game];
+  const gameDraws = dedupeDraws(draws.filter(d => d.game === game));
+  const middle = (rules.minNumber + rules.maxNumber) / 2;
+
+  const tests = [
+    frequencyTest(rules, gameDraws, false),
+    ...(rules.bonus === 'none' ? [] : [frequencyTest(rules, gameDraws, true)]),
+    runsTest('odd-even-runs', rules, gameDraws, ['Odd', 'Even'], n => n % 2 === 1),
+    runsTest('high-low-runs', rules, gameDraws, ['High', 'Low'], n => n > middle),
+    sumTest(rules, gameDraws),
+    gapTest(rules, gameDraws)
+  ];
+
+  return {
+    game,
+    drawCount: gameDraws.length,
+    firstDate: gameDraws[gameDraws.length - 1]?.date,
+    lastDate: gameDraws[0]?.date,
+    tests
+  };
+};
+
+/**
+ * Audits for every game that has at least one draw in `draws`, in `LottoGame` order.
+ */
+export const auditAllGames = (draws: DrawResult[]): GameAudit[] =>
+  Object.values(LottoGame)
+    .filter(game => draws.some(d => d.game === game))
+    .map(game => auditGame(game, draws));
@@ -0,0 +1,49 @@
+import { DrawResult, FetchSnapshot, FieldDiff, ReconciledDraw, ReconciledField } from "../types";
+import { drawKey } from "./gameRules";
+
+const FIELDS: ReconciledField[] = ['numbers', 'bonusBall', 'powerBall', 'jackpotAmount'];
+
+// Main balls are compared as a set: sources list them in draw order or sorted
+const fieldValue = (draw: DrawResult, field: ReconciledField): string => {
+  const value = draw[field];
+  if (value === undefined || value === null) return '';
+  return Array.isArray(value) ? [...value].sort((a, b) => a - b).join(',') : String(value);
+};
+
+/**
+ * Groups every snapshot's draws by game and date and compares the copies field by field.
+ * A draw only one snapshot returned is 'single-source'; otherwise it is 'agreed' when every
+ * copy matches on numbers, bonus ball, PowerBall and jackpot, and 'conflicting' when any differ.
+ * A field one source left blank counts as a disagreement, since the two copies cannot be checked.
+ */
+export const reconcileSnapshots = (
+  snapshots: FetchSnapshot[],
+  chosen: Record<string, string> = {}
+): Map<string, ReconciledDraw> => {
+  const reconciled = new Map<string, ReconciledDraw>();
+
+  snapshots.forEach(({ label, draws }) => {
+    draws.forEach(draw => {
+      const key = drawKey(draw);
+      const entry = reconciled.get(key) || { key, game: draw.game, date: draw.date, status: 'single-source', versions: [], diffs: [] };
+      entry.versions.push({ label, draw });
+      reconciled.set(key, entry);
+    });
+  });
+
+  reconciled.forEach(entry => {
+    if (entry.versions.length < 2) return;
+    entry.diffs = FIELDS
+      .filter(field => new Set(entry.versions.map(v => fieldValue(v.draw, field))).size > 1)
+      .map((field): FieldDiff => ({
+        field,
+        values: entry.versions.map(v => ({ label: v.label, value: v.draw[field] }))
+      }));
+    entry.status = entry.diffs.length > 0 ? 'conflicting' : 'agreed';
+    if (chosen[entry.key] && entry.versions.some(v => v.label === chosen[entry.key])) {
+      entry.chosenLabel = chosen[entry.key];
+    }
+  });
+
+  return reconciled;
+};
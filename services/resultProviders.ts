@@ -0,0 +1,25 @@
+import { LottoGame, ResultSource, ScrapedResult } from "../types";
+import { isLottoGame, isRecord, validateDraws } from "./gameRules";
+import { parseDrawDate } from "./drawSchedule";
+import { dedupeDraws } from "./drawIdentity";
+
+/**
+ * Turns raw draw records from any provider into a `ScrapedResult`: well-formed records outside
+ * the requested range or games are dropped, the rest are validated, deduplicated under their
+ * canonical ids and sorted newest first.
+ * Malformed records are kept so they are reported as rejected rather than vanishing.
+ */
+export const buildScrapedResult = (
+  raw: unknown[],
+  sources: ResultSource[],
+  startDate: string,
+  endDate: string,
+  games: LottoGame[] = Object.values(LottoGame)
+): ScrapedResult => {
+  const requested = raw.filter(d => {
+    if (!isRecord(d) || !isLottoGame(d.game) || typeof d.date !== 'string' || !parseDrawDate(d.date)) return true;
+    return d.date >= startDate && d.date <= endDate && games.includes(d.game);
+  });
+  const { accepted, rejected } = validateDraws(requested);
+  return { draws: dedupeDraws(accepted), sources, rejected };
+};
@@ -0,0 +1,110 @@
+import { ScrapeError, ScrapeErrorKind } from "../types";
+
+export interface RetryPolicy {
+  /** Requests to make in total, including the first. */
+  maxAttempts: number;
+  /** Ceiling of the first backoff; each retry doubles it. */
+  baseDelayMs: number;
+  /** Longest wait between attempts. A retry-after hint beyond this ends the retries instead. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 60000 };
+
+/**
+ * Whether another request could plausibly succeed. A missing key will not fix itself, and an empty
+ * range usually means results are not published yet, which paying for more requests won't change.
+ */
+const RETRYABLE: Record<ScrapeErrorKind, boolean> = {
+  'missing-key': false,
+  'rate-limit': true,
+  network: true,
+  truncated: true,
+  schema: true,
+  empty: false,
+  cancelled: false
+};
+
+/**
+ * A classified fetch failure. Providers throw it from a single attempt and `retryWithBackoff`
+ * decides whether to try again.
+ */
+export class ScrapeFailure extends Error {
+  attempts = 1;
+
+  constructor(
+    public kind: ScrapeErrorKind,
+    message: string,
+    public retryAfterMs?: number,
+    public retryable: boolean = RETRYABLE[kind]
+  ) {
+    super(message);
+    this.name = 'ScrapeFailure';
+  }
+
+  toScrapeError(): ScrapeError {
+    return { kind: this.kind, message: this.message, attempts: this.attempts, retryAfterMs: this.retryAfterMs };
+  }
+}
+
+/**
+ * Wait before retry number `retry` (1-based): exponential backoff with equal jitter, so the wait
+ * falls between half and all of the doubled ceiling. A retry-after hint is a floor, not a cap.
+ */
+export const retryDelay = (retry: number, policy: RetryPolicy, retryAfterMs?: number, random = Math.random): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  const backoff = ceiling / 2 + random() * (ceiling / 2);
+  return Math.max(backoff, retryAfterMs ?? 0);
+};
+
+const cancelled = () => new ScrapeFailure('cancelled', "Cancelled.");
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelled());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `attempt` until it succeeds, fails with something not worth retrying, or uses up the policy.
+ * Anything thrown that is not a `ScrapeFailure` counts as a network failure, or as cancelled once
+ * `signal` has fired. The failure that ends the retries is rethrown with `attempts` set.
+ */
+export const retryWithBackoff = async <T>(
+  attempt: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (failure: ScrapeFailure, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempts = 1; ; attempts++) {
+    try {
+      if (signal?.aborted) throw cancelled();
+      return await attempt();
+    } catch (err: any) {
+      const failure = err instanceof ScrapeFailure
+        ? err
+        : signal?.aborted ? cancelled() : new ScrapeFailure('network', err?.message || "Request failed.");
+      failure.attempts = attempts;
+
+      const tooLong = failure.retryAfterMs !== undefined && failure.retryAfterMs > policy.maxDelayMs;
+      if (!failure.retryable || tooLong || attempts >= policy.maxAttempts) throw failure;
+
+      const delayMs = retryDelay(attempts, policy, failure.retryAfterMs);
+      onRetry?.(failure, delayMs);
+      try {
+        await sleep(delayMs, signal);
+      } catch (abort: any) {
+        abort.attempts = attempts;
+        throw abort;
+      }
+    }
+  }
+};
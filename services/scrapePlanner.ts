@@ -0,0 +1,119 @@
+import { DrawResult, LottoGame, ScrapedResult } from "../types";
+import { LINKED_GAMES } from "./gameRules";
+import { dedupeDraws } from "./drawIdentity";
+import { DrawSlot } from "./drawArchive";
+
+/** Upper bound on the draws a single request is expected to return, well inside what the model finishes. */
+export const MAX_DRAWS_PER_CHUNK = 24;
+/** No chunk spans more than a week, so a chunk's prompt stays easy to ground. */
+export const MAX_CHUNK_DAYS = 7;
+export const DEFAULT_CONCURRENCY = 3;
+
+export interface ScrapeChunk {
+  id: string;
+  startDate: string;
+  endDate: string;
+  games: LottoGame[];
+  /** How many draws this chunk should return if every slot is filled. */
+  expectedDraws: number;
+}
+
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ChunkOutcome {
+  chunk: ScrapeChunk;
+  status: ChunkStatus;
+  result?: ScrapedResult;
+}
+
+export interface ScrapeProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  /** Distinct draws collected so far across every finished chunk. */
+  drawCount: number;
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+
+/**
+ * Splits missing draw slots into requests: one series per group of linked games,
+ * cut into windows of at most a week and at most `MAX_DRAWS_PER_CHUNK` draws.
+ */
+export const planChunks = (slots: DrawSlot[]): ScrapeChunk[] => {
+  const chunks: ScrapeChunk[] = [];
+
+  LINKED_GAMES.forEach(group => {
+    const groupSlots = slots
+      .filter(slot => group.includes(slot.game))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    let current: ScrapeChunk | null = null;
+    groupSlots.forEach(slot => {
+      if (
+        !current ||
+        current.expectedDraws >= MAX_DRAWS_PER_CHUNK ||
+        daysBetween(current.startDate, slot.date) >= MAX_CHUNK_DAYS
+      ) {
+        current = {
+          id: `${group[0]}:${slot.date}`,
+          startDate: slot.date,
+          endDate: slot.date,
+          games: [],
+          expectedDraws: 0
+        };
+        chunks.push(current);
+      }
+      current.endDate = slot.date;
+      current.expectedDraws += 1;
+      if (!current.games.includes(slot.game)) current.games.push(slot.game);
+    });
+  });
+
+  return chunks.sort((a, b) => b.startDate.localeCompare(a.startDate));
+};
+
+/**
+ * Runs chunks through `fetchChunk` with at most `concurrency` in flight, reporting progress
+ * after each one settles. A chunk fails when its result carries an error; the rest keep going.
+ * Once `signal` fires no further chunks start, and those never started are marked cancelled.
+ */
+export const runChunks = async (
+  chunks: ScrapeChunk[],
+  fetchChunk: (chunk: ScrapeChunk) => Promise<ScrapedResult>,
+  onProgress?: (progress: ScrapeProgress, outcome: ChunkOutcome) => void,
+  concurrency: number = DEFAULT_CONCURRENCY,
+  signal?: AbortSignal
+): Promise<ChunkOutcome[]> => {
+  const outcomes: ChunkOutcome[] = chunks.map(chunk => ({ chunk, status: 'pending' }));
+  let collected: DrawResult[] = [];
+  const progress: ScrapeProgress = { total: chunks.length, completed: 0, failed: 0, drawCount: 0 };
+  let next = 0;
+
+  const worker = async () => {
+    while (next < outcomes.length && !signal?.aborted) {
+      const outcome = outcomes[next++];
+      outcome.status = 'running';
+      try {
+        outcome.result = await fetchChunk(outcome.chunk);
+        outcome.status = outcome.result.error?.kind === 'cancelled' ? 'cancelled' : outcome.result.errorDetail ? 'failed' : 'done';
+      } catch (err: any) {
+        outcome.result = { draws: [], sources: [], rejected: [], errorDetail: err?.message || "Chunk failed." };
+        outcome.status = 'failed';
+      }
+
+      collected = dedupeDraws([...collected, ...outcome.result.draws]);
+      progress.completed += 1;
+      if (outcome.status === 'failed') progress.failed += 1;
+      progress.drawCount = collected.length;
+      onProgress?.({ ...progress }, outcome);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  outcomes.forEach(outcome => {
+    if (outcome.status === 'pending') outcome.status = 'cancelled';
+  });
+  return outcomes;
+};
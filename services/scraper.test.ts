@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DrawResult, LottoGame, ResultProvider, ScrapedResult } from '../types';
+import { expectedDrawDates } from './drawSchedule';
+import { MAX_CHUNK_DAYS, MAX_DRAWS_PER_CHUNK } from './scrapePlanner';
+import { fetchWithRepair, planRange } from './scraper';
+
+test('the plan for a range asks for every scheduled draw exactly once, within the chunk limits', () => {
+  const chunks = planRange('2025-01-01', '2025-02-28');
+  Object.values(LottoGame).forEach(game => {
+    const planned = chunks
+      .filter(chunk => chunk.games.includes(game))
+      .flatMap(chunk => expectedDrawDates(game, chunk.startDate, chunk.endDate));
+    assert.deepEqual([...planned].sort(), expectedDrawDates(game, '2025-01-01', '2025-02-28'), game);
+  });
+  chunks.forEach(chunk => {
+    assert.ok(chunk.expectedDraws <= MAX_DRAWS_PER_CHUNK, chunk.id);
+    assert.ok((Date.parse(chunk.endDate) - Date.parse(chunk.startDate)) / 86400000 < MAX_CHUNK_DAYS, chunk.id);
+  });
+  assert.deepEqual(chunks.map(c => c.startDate), chunks.map(c => c.startDate).sort().reverse());
+});
+
+test('the plan only covers the games asked for', () => {
+  const chunks = planRange('2025-01-01', '2025-01-31', [LottoGame.DAILY_LOTTO]);
+  assert.ok(chunks.length > 0);
+  assert.ok(chunks.every(chunk => chunk.games.length === 1 && chunk.games[0] === LottoGame.DAILY_LOTTO));
+});
+
+const draw = (date: string): DrawResult => ({ id: '', game: LottoGame.DAILY_LOTTO, date, numbers: [1, 2, 3, 4, 5] });
+
+/** A provider whose every reply breaks off before reaching any of the range. */
+const breakingProvider = (requests: { startDate: string; endDate: string }[]): ResultProvider => ({
+  id: 'breaking',
+  label: 'Breaking',
+  archived: true,
+  fetchDraws: async (startDate, endDate): Promise<ScrapedResult> => {
+    requests.push({ startDate, endDate });
+    const repair = { recovered: 0, dropped: 1, cutOffAt: 0, remaining: { startDate, endDate } };
+    return { draws: [], sources: [], rejected: [], repair };
+  }
+});
+
+test('a reply that broke off is asked for again from where it stopped', async () => {
+  const requests: string[] = [];
+  const provider: ResultProvider = {
+    id: 'breaks-once',
+    label: 'Breaks once',
+    archived: true,
+    fetchDraws: async (startDate, endDate) => {
+      requests.push(`${startDate} to ${endDate}`);
+      if (requests.length > 1) return { draws: [draw('2025-01-02'), draw('2025-01-03')], sources: [], rejected: [] };
+      const repair = { recovered: 1, dropped: 1, cutOffAt: 0, lastGoodDate: '2025-01-01', remaining: { startDate: '2025-01-02', endDate } };
+      return { draws: [draw('2025-01-01')], sources: [], rejected: [], repair };
+    }
+  };
+
+  const result = await fetchWithRepair(provider, '2025-01-01', '2025-01-03');
+  assert.deepEqual(requests, ['2025-01-01 to 2025-01-03', '2025-01-02 to 2025-01-03']);
+  assert.equal(result.errorDetail, undefined);
+  assert.deepEqual(result.draws.map(d => d.date), ['2025-01-03', '2025-01-02', '2025-01-01']);
+});
+
+test('a range still unreached once the follow-ups run out is reported as truncated', async () => {
+  const requests: { startDate: string; endDate: string }[] = [];
+  const result = await fetchWithRepair(breakingProvider(requests), '2025-01-01', '2025-01-03');
+  assert.equal(requests.length, 3);
+  assert.equal(result.error?.kind, 'truncated');
+  assert.equal(result.error?.attempts, 3);
+  assert.match(result.errorDetail!, /2025-01-01 to 2025-01-03 was not reached/);
+});
@@ -0,0 +1,190 @@
+import { DrawResult, FetchOptions, LottoGame, ResultProvider, ScrapedResult } from "../types";
+import { deleteArchivedDate, findMissingSlots, getArchivedDraws, putArchivedDraws } from "./drawArchive";
+import { ChunkOutcome, planChunks, runChunks, ScrapeChunk, ScrapeProgress } from "./scrapePlanner";
+import { dedupeDraws } from "./drawIdentity";
+
+export interface ArchiveScrapeResult extends ScrapedResult {
+  /** One entry per request that was needed because the archive did not cover it. */
+  chunks: ChunkOutcome[];
+  /** Draws the provider returned during this call, as opposed to those already archived. */
+  fetched: DrawResult[];
+}
+
+/**
+ * Caps a range end at today: draws that have not happened yet can never be filled.
+ */
+export const lastDrawableDate = (endDate: string): string => {
+  const today = new Date().toISOString().split('T')[0];
+  return endDate > today ? today : endDate;
+};
+
+const mergeSources = (into: ScrapedResult['sources'], from: ScrapedResult['sources']) => {
+  from.forEach(src => {
+    if (!into.some(s => s.uri === src.uri)) into.push(src);
+  });
+};
+
+const collectChunks = (chunks: ChunkOutcome[]): ArchiveScrapeResult => {
+  const result: ArchiveScrapeResult = { draws: [], sources: [], rejected: [], chunks, fetched: [] };
+  const fetched: DrawResult[] = [];
+  chunks.forEach(({ result: response }) => {
+    if (!response) return;
+    fetched.push(...response.draws);
+    mergeSources(result.sources, response.sources);
+    result.rejected.push(...response.rejected);
+  });
+  result.fetched = dedupeDraws(fetched);
+  return result;
+};
+
+/** Follow-up requests made for the unreached part of a reply that broke off. */
+const MAX_REPAIR_REQUESTS = 2;
+
+/**
+ * Asks the provider for a range and, when the reply broke off part-way, asks again for only the
+ * part it never reached. The follow-ups' draws are merged in; if the last one fails, its error is
+ * what the result carries. If the follow-ups run out with part of the range still unreached, the
+ * result is marked truncated so the chunk counts as failed and can be retried.
+ */
+export const fetchWithRepair = async (
+  provider: ResultProvider,
+  startDate: string,
+  endDate: string,
+  games?: LottoGame[],
+  options?: FetchOptions
+): Promise<ScrapedResult> => {
+  let result = await provider.fetchDraws(startDate, endDate, games, options);
+  let requests = 0;
+  for (; requests < MAX_REPAIR_REQUESTS && result.repair?.remaining && !result.errorDetail; requests++) {
+    const { remaining } = result.repair;
+    const followUp = await provider.fetchDraws(remaining.startDate, remaining.endDate, games, options);
+    const sources = [...result.sources];
+    mergeSources(sources, followUp.sources);
+    result = {
+      ...followUp,
+      draws: dedupeDraws([...result.draws, ...followUp.draws]),
+      sources,
+      rejected: [...result.rejected, ...followUp.rejected]
+    };
+  }
+  if (result.repair?.remaining && !result.errorDetail) {
+    const { remaining } = result.repair;
+    const message = `Replies kept breaking off; ${remaining.startDate} to ${remaining.endDate} was not reached.`;
+    result = { ...result, errorDetail: message, error: { kind: 'truncated', message, attempts: requests + 1 } };
+  }
+  return result;
+};
+
+/**
+ * Sets the error on a chunked result. A cancellation takes precedence over failed requests.
+ */
+const reportFailures = (result: ArchiveScrapeResult, hint: string = '') => {
+  const { chunks } = result;
+  const cancelled = chunks.filter(c => c.status === 'cancelled');
+  const failed = chunks.filter(c => c.status === 'failed');
+  if (cancelled.length > 0) {
+    result.errorDetail = `Cancelled with ${cancelled.length} of ${chunks.length} requests unfinished.`;
+    result.error = { kind: 'cancelled', message: result.errorDetail, attempts: 1 };
+  } else if (failed.length > 0) {
+    result.errorDetail = `${failed.length} of ${chunks.length} requests failed (${failed[0].result?.errorDetail}).${hint}`;
+    result.error = failed.find(c => c.result?.error)?.result?.error;
+  }
+};
+
+/**
+ * Fetches a single planned chunk and archives whatever valid draws it returns, including those
+ * that arrived before a cancellation. Also used to retry a chunk that failed during `scrapeRange`.
+ */
+export const fetchChunk = async (provider: ResultProvider, chunk: ScrapeChunk, options?: FetchOptions): Promise<ScrapedResult> => {
+  const response = await fetchWithRepair(provider, chunk.startDate, chunk.endDate, chunk.games, options);
+  await putArchivedDraws(response.draws);
+  return response;
+};
+
+/**
+ * Serves a date range from the local archive, asking the provider only for the game/date slots it is missing.
+ * The gaps are split into small chunks that run a few at a time; newly validated draws are written
+ * back as each chunk lands, and the combined range is returned once every chunk has settled.
+ * `options.onDraws` sees the archived draws first, then each fetched draw as it streams in.
+ * Providers that are not archived are asked for the whole range in one go.
+ */
+export const scrapeRange = async (
+  provider: ResultProvider,
+  startDate: string,
+  endDate: string,
+  onProgress?: (progress: ScrapeProgress, outcome: ChunkOutcome) => void,
+  options: FetchOptions = {}
+): Promise<ArchiveScrapeResult> => {
+  if (!provider.archived) {
+    const response = await provider.fetchDraws(startDate, endDate, undefined, options);
+    return { ...response, chunks: [], fetched: response.draws };
+  }
+
+  const lastDate = lastDrawableDate(endDate);
+
+  const stored = await getArchivedDraws(startDate, lastDate);
+  if (stored.length > 0) options.onDraws?.(stored);
+  const chunks = await runChunks(
+    planChunks(findMissingSlots(stored, startDate, lastDate)),
+    chunk => fetchChunk(provider, chunk, options),
+    onProgress,
+    undefined,
+    options.signal
+  );
+
+  const result = collectChunks(chunks);
+  reportFailures(result, ' Retry them individually below.');
+
+  result.draws = await getArchivedDraws(startDate, endDate);
+  return result;
+};
+
+/**
+ * Fetches one date again and replaces whatever the archive held for it.
+ * The archived results are kept if the new fetch fails.
+ */
+export const refreshArchivedDate = async (provider: ResultProvider, date: string, options?: FetchOptions): Promise<ScrapedResult> => {
+  const response = await fetchWithRepair(provider, date, date, undefined, options);
+  if (!response.errorDetail && provider.archived) {
+    await deleteArchivedDate(date);
+    await putArchivedDraws(response.draws);
+  }
+  return response;
+};
+
+/**
+ * Splits every expected draw of `games` in the range into the chunks `scrapeFresh` would request.
+ */
+export const planRange = (startDate: string, endDate: string, games: LottoGame[] = Object.values(LottoGame)): ScrapeChunk[] =>
+  planChunks(findMissingSlots([], startDate, lastDrawableDate(endDate)).filter(slot => games.includes(slot.game)));
+
+/**
+ * Fetches the whole range from the provider without reading or writing the archive. Used to
+ * cross-check earlier fetches and by headless callers that have no archive.
+ */
+export const scrapeFresh = async (
+  provider: ResultProvider,
+  startDate: string,
+  endDate: string,
+  games: LottoGame[] = Object.values(LottoGame),
+  onProgress?: (progress: ScrapeProgress, outcome: ChunkOutcome) => void,
+  concurrency?: number,
+  options: FetchOptions = {}
+): Promise<ArchiveScrapeResult> => {
+  if (!provider.archived) {
+    const response = await provider.fetchDraws(startDate, endDate, games, options);
+    return { ...response, chunks: [], fetched: response.draws };
+  }
+
+  const chunks = await runChunks(
+    planRange(startDate, endDate, games),
+    chunk => fetchWithRepair(provider, chunk.startDate, chunk.endDate, chunk.games, options),
+    onProgress,
+    concurrency,
+    options.signal
+  );
+  const result = collectChunks(chunks);
+  reportFailures(result);
+  result.draws = result.fetched;
+  return result;
+};
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DrawResult, Ledger, LottoGame, WalletTicket } from '../types';
+import { memberTotals, settleTickets } from './syndicate';
+
+const ticket: WalletTicket = {
+  id: 't1',
+  game: LottoGame.LOTTO,
+  boards: [{ numbers: [3, 11, 19, 27, 35, 1] }, { numbers: [40, 41, 42, 44, 45, 46] }],
+  firstDrawDate: '2025-01-01',
+  lastDrawDate: '2025-01-04',
+  cost: 20,
+  owners: [{ member: 'Thandi', shares: 3 }, { member: 'Pieter', shares: 1 }]
+};
+
+const draw = (date: string, fields: Partial<DrawResult> = {}): DrawResult => ({
+  id: `lotto-${date}`,
+  game: LottoGame.LOTTO,
+  date,
+  numbers: [3, 11, 19, 27, 35, 43],
+  bonusBall: 50,
+  ...fields
+});
+
+const ledger: Ledger = { tickets: [ticket], settlements: [] };
+
+test('settles each covered draw once and leaves the ledger alone when nothing changed', () => {
+  const settled = settleTickets(ledger, [draw('2025-01-04', { divisions: [{ division: 3, winners: 10, payout: 8000 }] })]);
+  assert.equal(settled.settlements.length, 1);
+  assert.deepEqual(settled.settlements[0].wins, [{ boardIndex: 0, division: 3 }]);
+  assert.equal(settled.settlements[0].winnings, 8000);
+  assert.deepEqual(memberTotals(settled).map(m => [m.member, m.winnings]), [['Pieter', 2000], ['Thandi', 6000]]);
+
+  const again = settleTickets(settled, [draw('2025-01-04', { divisions: [{ division: 3, winners: 10, payout: 8000 }] })]);
+  assert.equal(again, settled);
+});
+
+test('a payout published after settling is settled again', () => {
+  const unpriced = settleTickets(ledger, [draw('2025-01-04')]);
+  assert.equal(unpriced.settlements[0].unpricedWins, 1);
+  const priced = settleTickets(unpriced, [draw('2025-01-04', { divisions: [{ division: 3, winners: 10, payout: 8000 }] })]);
+  assert.equal(priced.settlements[0].unpricedWins, 0);
+  assert.equal(priced.settlements[0].winnings, 8000);
+});
+
+test('a corrected draw replaces the settlement made against the wrong balls', () => {
+  const wrong = settleTickets(ledger, [draw('2025-01-04', { numbers: [40, 41, 42, 44, 45, 46] })]);
+  assert.deepEqual(wrong.settlements[0].wins, [{ boardIndex: 1, division: 1 }]);
+  const corrected = settleTickets(wrong, [draw('2025-01-04')]);
+  assert.equal(corrected.settlements.length, 1);
+  assert.deepEqual(corrected.settlements[0].wins, [{ boardIndex: 0, division: 3 }]);
+});
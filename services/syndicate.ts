@@ -0,0 +1,199 @@
+import { DrawResult, Ledger, MemberTotals, TicketSettlement, WalletTicket } from "../types";
+import { checkBoard } from "./ticketChecker";
+import { expectedDrawDates } from "./drawSchedule";
+import { drawKey } from "./gameRules";
+import { readStored, writeStored } from "./localStore";
+import { ExportFormat, rowsToCsv } from "./drawExport";
+import { Cell, writeXlsx } from "./xlsx";
+
+const LEDGER_KEY = 'sa-lotto-syndicate-ledger';
+
+export const EMPTY_LEDGER: Ledger = { tickets: [], settlements: [] };
+
+export const loadLedger = (): Ledger => ({ ...EMPTY_LEDGER, ...readStored<Partial<Ledger>>(LEDGER_KEY, {}) });
+
+export const saveLedger = (ledger: Ledger) => writeStored(LEDGER_KEY, ledger);
+
+/**
+ * Reads owners typed as "Thandi: 2, Pieter, Lerato 1"; a name without a number holds one share.
+ */
+export const parseOwners = (text: string): { owners: WalletTicket['owners']; errors: string[] } => {
+  const owners: WalletTicket['owners'] = [];
+  const errors: string[] = [];
+  text.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const match = part.match(/^(.*?)[\s:]*(\d+(?:\.\d+)?)?$/);
+    const member = match?.[1].trim();
+    const shares = match?.[2] ? Number(match[2]) : 1;
+    if (!member) errors.push(`"${part}" has no member name.`);
+    else if (!(shares > 0)) errors.push(`${member} must hold more than zero shares.`);
+    else if (owners.some(o => o.member.toLowerCase() === member.toLowerCase())) errors.push(`${member} is listed twice.`);
+    else owners.push({ member, shares });
+  });
+  if (owners.length === 0 && errors.length === 0) errors.push("Add at least one owner.");
+  return { owners, errors };
+};
+
+export const ticketDrawDates = (ticket: WalletTicket): string[] =>
+  expectedDrawDates(ticket.game, ticket.firstDrawDate, ticket.lastDrawDate);
+
+/** What a settlement depends on: the balls drawn and the published payouts. */
+const drawFingerprint = (draw: DrawResult) =>
+  JSON.stringify([
+    [...draw.numbers].sort((a, b) => a - b),
+    draw.bonusBall ?? null,
+    draw.powerBall ?? null,
+    (draw.divisions || []).map(d => [d.division, d.payout])
+  ]);
+
+const settle = (ticket: WalletTicket, draw: DrawResult): TicketSettlement => {
+  const settlement: TicketSettlement = {
+    ticketId: ticket.id,
+    drawId: draw.id,
+    game: draw.game,
+    date: draw.date,
+    wins: [],
+    winnings: 0,
+    unpricedWins: 0,
+    drawFingerprint: drawFingerprint(draw),
+    settledAt: new Date().toISOString()
+  };
+  ticket.boards.forEach((board, boardIndex) => {
+    const { division } = checkBoard(board, draw);
+    if (division === null) return;
+    settlement.wins.push({ boardIndex, division });
+    const payout = draw.divisions?.find(d => d.division === division)?.payout;
+    if (payout === undefined) settlement.unpricedWins += 1;
+    else settlement.winnings += payout;
+  });
+  return settlement;
+};
+
+/**
+ * Settles every ticket against whichever of its draws are in `draws` and not yet settled. A draw
+ * is settled again whenever its balls or payouts differ from those it was settled against, so
+ * payouts that arrive late and corrected results both reach the ledger. Returns `ledger` itself
+ * when nothing changed, so callers can tell whether to save.
+ */
+export const settleTickets = (ledger: Ledger, draws: DrawResult[]): Ledger => {
+  const byKey = new Map(draws.map(d => [drawKey(d), d]));
+  const settlements = [...ledger.settlements];
+  let changed = false;
+
+  ledger.tickets.forEach(ticket => {
+    ticketDrawDates(ticket).forEach(date => {
+      const draw = byKey.get(drawKey({ game: ticket.game, date }));
+      if (!draw) return;
+      const index = settlements.findIndex(s => s.ticketId === ticket.id && s.date === date);
+      if (index >= 0 && settlements[index].drawFingerprint === drawFingerprint(draw)) return;
+
+      const settlement = settle(ticket, draw);
+      if (index < 0) settlements.push(settlement);
+      else settlements[index] = settlement;
+      changed = true;
+    });
+  });
+
+  return changed ? { ...ledger, settlements } : ledger;
+};
+
+/** Draws settled so far out of those the ticket covers. */
+export const ticketProgress = (ticket: WalletTicket, ledger: Ledger) => ({
+  settled: ledger.settlements.filter(s => s.ticketId === ticket.id).length,
+  total: ticketDrawDates(ticket).length
+});
+
+const splitByShares = (ticket: WalletTicket, amount: number) => {
+  const totalShares = ticket.owners.reduce((sum, o) => sum + o.shares, 0);
+  return ticket.owners.map(o => ({ member: o.member, share: o.shares / totalShares, amount: (amount * o.shares) / totalShares }));
+};
+
+/**
+ * Running spend and winnings per member, each ticket's cost and winnings split by its shares.
+ */
+export const memberTotals = (ledger: Ledger): MemberTotals[] => {
+  const totals = new Map<string, MemberTotals>();
+  const entry = (member: string) => {
+    if (!totals.has(member)) totals.set(member, { member, spend: 0, winnings: 0, net: 0 });
+    return totals.get(member)!;
+  };
+
+  ledger.tickets.forEach(ticket => {
+    splitByShares(ticket, ticket.cost).forEach(({ member, amount }) => {
+      entry(member).spend += amount;
+    });
+    const won = ledger.settlements.filter(s => s.ticketId === ticket.id).reduce((sum, s) => sum + s.winnings, 0);
+    splitByShares(ticket, won).forEach(({ member, amount }) => {
+      entry(member).winnings += amount;
+    });
+  });
+
+  return [...totals.values()]
+    .map(t => ({ ...t, net: t.winnings - t.spend }))
+    .sort((a, b) => a.member.localeCompare(b.member));
+};
+
+/**
+ * How many tickets cover each draw, keyed by `drawKey`.
+ */
+export const ticketsByDraw = (ledger: Ledger): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  ledger.tickets.forEach(ticket => {
+    ticketDrawDates(ticket).forEach(date => {
+      const key = drawKey({ game: ticket.game, date });
+      counts[key] = (counts[key] || 0) + 1;
+    });
+  });
+  return counts;
+};
+
+export type LedgerExportFormat = Extract<ExportFormat, 'csv' | 'json' | 'xlsx'>;
+
+export const LEDGER_EXPORT_FORMATS: LedgerExportFormat[] = ['csv', 'xlsx', 'json'];
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const LEDGER_HEADERS = ['Date', 'Entry', 'Ticket', 'Game', 'Member', 'Share', 'Amount (ZAR)', 'Details'];
+
+/**
+ * One row per member per stake and per winning draw, stakes negative, in date order: the layout
+ * a syndicate spreadsheet keeps.
+ */
+const ledgerRows = (ledger: Ledger): Cell[][] => {
+  const rows: { date: string; row: Cell[] }[] = [];
+  ledger.tickets.forEach(ticket => {
+    const boards = `${ticket.boards.length} board${ticket.boards.length === 1 ? '' : 's'}, ${ticket.firstDrawDate} to ${ticket.lastDrawDate}`;
+    splitByShares(ticket, ticket.cost).forEach(({ member, share, amount }) => {
+      rows.push({ date: ticket.firstDrawDate, row: [ticket.firstDrawDate, 'Stake', ticket.id, ticket.game, member, share, -toCents(amount), boards] });
+    });
+    ledger.settlements
+      .filter(s => s.ticketId === ticket.id && s.wins.length > 0)
+      .forEach(s => {
+        const details = s.wins.map(w => `Board ${w.boardIndex + 1}: Div ${w.division}`).join('; ')
+          + (s.unpricedWins > 0 ? ` (${s.unpricedWins} awaiting payout)` : '');
+        splitByShares(ticket, s.winnings).forEach(({ member, share, amount }) => {
+          rows.push({ date: s.date, row: [s.date, 'Winnings', ticket.id, ticket.game, member, share, toCents(amount), details] });
+        });
+      });
+  });
+  return rows.sort((a, b) => a.date.localeCompare(b.date)).map(r => r.row);
+};
+
+export const exportLedger = (ledger: Ledger, format: LedgerExportFormat): string | Uint8Array => {
+  switch (format) {
+    case 'csv':
+      return rowsToCsv([LEDGER_HEADERS, ...ledgerRows(ledger)]);
+    case 'json':
+      return JSON.stringify({ exportedAt: new Date().toISOString(), ...ledger, members: memberTotals(ledger) }, null, 2);
+    case 'xlsx':
+      return writeXlsx([
+        { name: 'Ledger', rows: [LEDGER_HEADERS, ...ledgerRows(ledger)] },
+        {
+          name: 'Members',
+          rows: [
+            ['Member', 'Spend (ZAR)', 'Winnings (ZAR)', 'Net (ZAR)'],
+            ...memberTotals(ledger).map(t => [t.member, toCents(t.spend), toCents(t.winnings), toCents(t.net)])
+          ]
+        }
+      ]);
+  }
+};
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DrawResult, LottoGame } from '../types';
+import { checkBoard } from './ticketChecker';
+
+const lotto: DrawResult = { id: 'lotto-2500', game: LottoGame.LOTTO, date: '2025-01-04', numbers: [3, 11, 19, 27, 35, 43], bonusBall: 50 };
+const powerBall: DrawResult = { id: 'powerball-1600', game: LottoGame.POWERBALL, date: '2025-01-03', numbers: [2, 9, 17, 30, 41], powerBall: 12 };
+
+test('a Lotto board wins the division for its matches, the bonus ball lifting it where one exists', () => {
+  const cases: [number[], number | null][] = [
+    [[3, 11, 19, 27, 35, 43], 1],
+    [[3, 11, 19, 27, 35, 50], 2],
+    [[3, 11, 19, 27, 35, 1], 3],
+    [[3, 11, 19, 27, 50, 1], 4],
+    [[3, 11, 19, 27, 1, 2], 5],
+    [[3, 11, 19, 1, 2, 50], 6],
+    [[3, 11, 19, 1, 2, 4], 7],
+    [[3, 11, 50, 1, 2, 4], 8],
+    [[3, 11, 1, 2, 4, 5], null],
+    [[3, 50, 1, 2, 4, 5], null]
+  ];
+  cases.forEach(([numbers, division]) => {
+    assert.equal(checkBoard({ numbers }, lotto).division, division, numbers.join(' '));
+  });
+});
+
+test('a PowerBall board matches the PowerBall only with its own pick', () => {
+  assert.equal(checkBoard({ numbers: [2, 9, 17, 30, 41], powerBall: 12 }, powerBall).division, 1);
+  assert.equal(checkBoard({ numbers: [2, 9, 17, 30, 41], powerBall: 5 }, powerBall).division, 2);
+  assert.equal(checkBoard({ numbers: [1, 3, 4, 5, 6], powerBall: 12 }, powerBall).division, 9);
+  assert.equal(checkBoard({ numbers: [2, 9, 17, 30, 12], powerBall: 1 }, powerBall).bonusMatched, false);
+});
@@ -0,0 +1,76 @@
+import { BoardCheck, DrawResult, LottoGame, Ticket, TicketBoard } from "../types";
+import { GAME_RULES } from "./gameRules";
+
+/**
+ * Parses one board typed as space- or comma-separated numbers. PowerBall games take the
+ * PowerBall after a "+" or "PB", e.g. "5 12 18 33 41 + 7". Returns the reasons on failure.
+ */
+export const parseBoard = (text: string, game: LottoGame): { board?: TicketBoard; errors: string[] } => {
+  const rules = GAME_RULES[game];
+  const [mainPart, bonusPart] = text.split(/\+|pb/i);
+  const numbers = (mainPart.match(/\d+/g) || []).map(Number);
+  const errors: string[] = [];
+
+  if (numbers.length !== rules.ballCount) {
+    errors.push(`Pick ${rules.ballCount} numbers, not ${numbers.length}.`);
+  }
+  const outOfRange = numbers.filter(n => n < rules.minNumber || n > rules.maxNumber);
+  if (outOfRange.length > 0) {
+    errors.push(`Numbers must be ${rules.minNumber}-${rules.maxNumber}: ${outOfRange.join(', ')}.`);
+  }
+  if (new Set(numbers).size !== numbers.length) {
+    errors.push("Numbers must not repeat.");
+  }
+
+  const board: TicketBoard = { numbers };
+  if (rules.bonus === 'powerBall') {
+    const pick = bonusPart?.match(/\d+/);
+    if (!pick) {
+      errors.push("Add your PowerBall after a '+'.");
+    } else {
+      board.powerBall = Number(pick[0]);
+      if (board.powerBall < rules.bonusMin || board.powerBall > rules.bonusMax) {
+        errors.push(`PowerBall must be ${rules.bonusMin}-${rules.bonusMax}.`);
+      }
+    }
+  } else if (bonusPart !== undefined) {
+    errors.push(`${game} boards have no separate bonus pick.`);
+  }
+
+  return errors.length > 0 ? { errors } : { board, errors };
+};
+
+/**
+ * Scores one board against one draw of the same game.
+ * A Lotto bonus ball matches when it is among the board's numbers; a PowerBall matches the board's own pick.
+ */
+export const checkBoard = (board: TicketBoard, draw: DrawResult): Omit<BoardCheck, 'ticketId' | 'boardIndex'> => {
+  const rules = GAME_RULES[draw.game];
+  const matchedNumbers = board.numbers.filter(n => draw.numbers.includes(n));
+  const bonusMatched =
+    rules.bonus === 'bonusBall' ? draw.bonusBall !== undefined && board.numbers.includes(draw.bonusBall) :
+    rules.bonus === 'powerBall' ? draw.powerBall !== undefined && board.powerBall === draw.powerBall :
+    false;
+
+  const won = rules.divisions.find(d => d.mainMatches === matchedNumbers.length && (!d.bonusRequired || bonusMatched));
+
+  return {
+    drawId: draw.id,
+    game: draw.game,
+    date: draw.date,
+    matchedNumbers,
+    bonusMatched,
+    division: won ? won.division : null
+  };
+};
+
+/**
+ * Checks every board of a ticket against each draw of its game within the ticket's dates, newest first.
+ */
+export const checkTicket = (ticket: Ticket, draws: DrawResult[]): BoardCheck[] =>
+  draws
+    .filter(d => d.game === ticket.game && d.date >= ticket.firstDrawDate && d.date <= ticket.lastDrawDate)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .flatMap(draw =>
+      ticket.boards.map((board, boardIndex) => ({ ticketId: ticket.id, boardIndex, ...checkBoard(board, draw) }))
+    );
@@ -0,0 +1,113 @@
+import { DrawResult, Watchlist, WatchAlert } from "../types";
+import { checkBoard } from "./ticketChecker";
+import { readStored, writeStored } from "./localStore";
+
+const WATCHLIST_KEY = 'sa-lotto-watchlist';
+const FIRED_KEY = 'sa-lotto-fired-alerts';
+/** Fired alert ids kept to stop repeats; older ones belong to draws long out of any fetch. */
+const FIRED_LIMIT = 1000;
+
+export const EMPTY_WATCHLIST: Watchlist = { boards: [], thresholds: [], notify: false };
+
+export const loadWatchlist = (): Watchlist => ({ ...EMPTY_WATCHLIST, ...readStored<Partial<Watchlist>>(WATCHLIST_KEY, {}) });
+
+export const saveWatchlist = (watchlist: Watchlist) => writeStored(WATCHLIST_KEY, watchlist);
+
+export const loadFiredAlertIds = (): Set<string> => new Set(readStored<string[]>(FIRED_KEY, []));
+
+export const saveFiredAlertIds = (ids: Set<string>) => writeStored(FIRED_KEY, [...ids].slice(-FIRED_LIMIT));
+
+const formatRand = (amount: number) => `R ${amount.toLocaleString('en-ZA', { maximumFractionDigits: 0 })}`;
+
+/**
+ * The alerts `draws` raise against the watchlist that have not fired before. A watched board alerts
+ * when it wins a prize division; a threshold alerts on the draw whose jackpot first reaches the
+ * amount, that is when the game's previous draw among `draws` was below it or is not there.
+ */
+export const findAlerts = (watchlist: Watchlist, draws: DrawResult[], fired: Set<string>): WatchAlert[] => {
+  const firedAt = new Date().toISOString();
+  const alerts: WatchAlert[] = [];
+
+  // The jackpot of the draw before each one in the same game
+  const previousJackpot = new Map<string, number>();
+  const lastJackpot = new Map<string, number>();
+  [...draws].sort((a, b) => a.date.localeCompare(b.date)).forEach(draw => {
+    const last = lastJackpot.get(draw.game);
+    if (last !== undefined) previousJackpot.set(draw.id, last);
+    lastJackpot.set(draw.game, draw.jackpotAmount ?? 0);
+  });
+
+  draws.forEach(draw => {
+    watchlist.boards.filter(w => w.game === draw.game).forEach(watch => {
+      const id = `board:${watch.id}:${draw.id}`;
+      const { matchedNumbers, bonusMatched, division } = checkBoard(watch.board, draw);
+      if (division === null || fired.has(id)) return;
+      const matched = `${matchedNumbers.length} number${matchedNumbers.length === 1 ? '' : 's'}${bonusMatched ? ' and the bonus' : ''}`;
+      alerts.push({
+        id,
+        kind: 'board',
+        watchId: watch.id,
+        drawId: draw.id,
+        game: draw.game,
+        date: draw.date,
+        message: `${draw.game} ${draw.date}: your board ${watch.board.numbers.join(' ')} won division ${division} with ${matched}.`,
+        match: { matchedNumbers, bonusMatched, division },
+        firedAt
+      });
+    });
+
+    watchlist.thresholds.filter(w => w.game === draw.game).forEach(watch => {
+      const id = `jackpot:${watch.id}:${draw.id}`;
+      const jackpot = draw.jackpotAmount ?? 0;
+      const previous = previousJackpot.get(draw.id);
+      if (jackpot < watch.amount || (previous !== undefined && previous >= watch.amount) || fired.has(id)) return;
+      alerts.push({
+        id,
+        kind: 'jackpot',
+        watchId: watch.id,
+        drawId: draw.id,
+        game: draw.game,
+        date: draw.date,
+        message: `${draw.game} ${draw.date}: the jackpot is ${formatRand(jackpot)}, past your ${formatRand(watch.amount)} alert.`,
+        threshold: watch.amount,
+        jackpot,
+        firedAt
+      });
+    });
+  });
+
+  return alerts;
+};
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+/**
+ * Asks the browser for permission to show notifications. Resolves to whether they may be shown.
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+/**
+ * Sends one alert through every channel the watchlist enables. A webhook that cannot be reached
+ * or answers with an error is reported in the returned message; the alert still counts as fired.
+ */
+export const deliverAlert = async (alert: WatchAlert, draw: DrawResult, watchlist: Watchlist): Promise<string | null> => {
+  if (watchlist.notify && notificationsSupported() && Notification.permission === 'granted') {
+    new Notification(alert.kind === 'jackpot' ? 'Jackpot alert' : 'Your numbers came up', { body: alert.message, tag: alert.id });
+  }
+
+  if (!watchlist.webhookUrl) return null;
+  try {
+    const response = await fetch(watchlist.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ alert, draw })
+    });
+    return response.ok ? null : `The webhook answered ${response.status} for ${alert.game} ${alert.date}.`;
+  } catch (err: any) {
+    return `The webhook could not be reached: ${err?.message || err}`;
+  }
+};
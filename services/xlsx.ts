@@ -0,0 +1,244 @@
+/**
+ * Just enough of the Office Open XML spreadsheet format to write one workbook with a sheet per
+ * table and read such workbooks (or ones re-saved by Excel) back. Cells are strings or numbers.
+ */
+
+export type Cell = string | number | null;
+
+export interface Sheet {
+  name: string;
+  rows: Cell[][];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Packs files into an uncompressed ("stored") zip archive.
+ */
+const zip = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, file.data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, file.data.length, true);
+    entry.setUint32(24, file.data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + file.data.length;
+  });
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  parts.forEach(p => {
+    out.set(p, pos);
+    pos += p.length;
+  });
+  return out;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads every file out of a zip archive. Handles the stored and deflate methods, which is
+ * all spreadsheet applications write.
+ */
+const unzip = async (bytes: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let endOffset = bytes.length - 22;
+  while (endOffset >= 0 && view.getUint32(endOffset, true) !== 0x06054b50) endOffset--;
+  if (endOffset < 0) throw new Error("Not a zip archive.");
+
+  const count = view.getUint16(endOffset + 10, true);
+  let pos = view.getUint32(endOffset + 16, true);
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== 0x02014b50) throw new Error("Corrupt zip directory.");
+    const method = view.getUint16(pos + 10, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + size);
+    if (method === 0) files.set(name, raw);
+    else if (method === 8) files.set(name, await inflateRaw(raw));
+    else throw new Error(`Unsupported zip compression method ${method}.`);
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const columnIndex = (ref: string) =>
+  ref.replace(/\d+$/, '').split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const sheetXml = (rows: Cell[][]) => {
+  const body = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (cell === null || cell === '') return '';
+      if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(cell)}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`;
+};
+
+/**
+ * Builds an .xlsx workbook. Sheet names are cut to Excel's 31-character limit.
+ */
+export const writeXlsx = (sheets: Sheet[]): Uint8Array => {
+  const sheetEntries = sheets.map((sheet, i) => ({ ...sheet, name: sheet.name.replace(/[\[\]:*?/\\]/g, ' ').slice(0, 31), id: i + 1 }));
+
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      xml: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheetEntries.map(s => `<Override PartName="/xl/worksheets/sheet${s.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      xml: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      xml: `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheetEntries.map(s => `<sheet name="${escapeXml(s.name)}" sheetId="${s.id}" r:id="rId${s.id}"/>`).join('')}</sheets></workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      xml: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetEntries.map(s => `<Relationship Id="rId${s.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${s.id}.xml"/>`).join('')}</Relationships>`
+    },
+    ...sheetEntries.map(s => ({ name: `xl/worksheets/sheet${s.id}.xml`, xml: sheetXml(s.rows) }))
+  ];
+
+  return zip(files.map(f => ({ name: f.name, data: encoder.encode(f.xml) })));
+};
+
+// Excel counts days from 1899-12-30, which absorbs its phantom 29 February 1900
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+
+/**
+ * The YYYY-MM-DD date of an Excel serial day number, as a date cell holds once Excel re-saves a
+ * workbook. Null for anything that is not a whole day number.
+ */
+export const serialToIsoDate = (serial: number): string | null =>
+  Number.isInteger(serial) && serial > 0 ? new Date(SERIAL_EPOCH + serial * 86_400_000).toISOString().slice(0, 10) : null;
+
+/**
+ * Reads every sheet of an .xlsx workbook as rows of cells, in workbook order.
+ * Shared strings, inline strings and numeric cells are supported; formulas yield their cached value.
+ */
+export const readXlsx = async (bytes: Uint8Array): Promise<Sheet[]> => {
+  const files = await unzip(bytes);
+  const text = (name: string) => {
+    const data = files.get(name);
+    return data ? decoder.decode(data) : '';
+  };
+
+  const sharedStrings = [...text('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(([, si]) =>
+    unescapeXml([...si.matchAll(/<t[^>]*>([\s\S]*?)<\/t>/g)].map(m => m[1]).join(''))
+  );
+
+  const targets = new Map(
+    [...text('xl/_rels/workbook.xml.rels').matchAll(/<Relationship\b[^>]*>/g)].map(([tag]) => [
+      tag.match(/Id="([^"]+)"/)?.[1],
+      tag.match(/Target="([^"]+)"/)?.[1]?.replace(/^\/?(xl\/)?/, 'xl/')
+    ])
+  );
+
+  return [...text('xl/workbook.xml').matchAll(/<sheet\b[^>]*>/g)].map(([tag]) => {
+    const name = unescapeXml(tag.match(/name="([^"]*)"/)?.[1] || '');
+    const target = targets.get(tag.match(/r:id="([^"]+)"/)?.[1]) || '';
+
+    const rows: Cell[][] = [];
+    [...text(target).matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)].forEach(([, rowAttrs, rowBody = '']) => {
+      const rowIndex = Number(rowAttrs.match(/r="(\d+)"/)?.[1] || rows.length + 1) - 1;
+      const row: Cell[] = [];
+      [...rowBody.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)].forEach(([, attrs, body = '']) => {
+        const ref = attrs.match(/r="([A-Z]+\d+)"/)?.[1];
+        const col = ref ? columnIndex(ref) : row.length;
+        const type = attrs.match(/t="([^"]+)"/)?.[1];
+        const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+        if (type === 's') row[col] = sharedStrings[Number(value)] ?? null;
+        else if (type === 'inlineStr') row[col] = unescapeXml([...body.matchAll(/<t[^>]*>([\s\S]*?)<\/t>/g)].map(m => m[1]).join(''));
+        else if (type === 'str' || type === 'b' || type === 'e') row[col] = value !== undefined ? unescapeXml(value) : null;
+        else row[col] = value !== undefined ? Number(value) : null;
+      });
+      rows[rowIndex] = Array.from(row, cell => cell ?? null);
+    });
+
+    return { name, rows: Array.from(rows, row => row ?? []) };
+  });
+};
@@ -17,8 +17,483 @@ export interface DrawResult {
   bonusBall?: number;
   powerBall?: number;
   jackpotAmount?: number;
+  /** The operator's sequential draw number for this game. */
+  drawNumber?: number;
+  /** Payout and winner count per prize division, as published after the draw. */
+  divisions?: DivisionPayout[];
+  /** Whether nobody won division 1, so the jackpot rolls over. */
+  rollover?: boolean;
+  /** The operator's estimate of the next draw's jackpot. */
+  nextJackpotAmount?: number;
+  /** Which sources backed this draw, when the provider could tell. */
+  provenance?: DrawProvenance;
+}
+
+export interface DivisionPayout {
+  division: number;
+  /** Rand paid to each winner in the division; absent until the operator publishes it. */
+  payout?: number;
+  winners: number;
 }
 
 export interface LotteryDataResponse {
   draws: DrawResult[];
 }
+
+export interface ResultSource {
+  uri: string;
+  title: string;
+}
+
+/**
+ * The sources cited for one draw. `confidence` runs from 0 (nothing cited) to 1.
+ */
+export interface DrawProvenance {
+  sources: ResultSource[];
+  /** Whether a nationallottery.co.za page was among the sources. */
+  official: boolean;
+  confidence: number;
+}
+
+export interface ScrapedResult extends LotteryDataResponse {
+  sources: ResultSource[];
+  /** Draws the source returned that break their game's rules, with the reasons. */
+  rejected: RejectedDraw[];
+  errorDetail?: string;
+  /** Why the fetch failed, when the provider could tell. `errorDetail` carries the same message. */
+  error?: ScrapeError;
+  /** Present when the reply was cut off and its complete records were salvaged. */
+  repair?: RepairReport;
+}
+
+/** What was saved from a reply that broke off part-way. */
+export interface RepairReport {
+  /** Complete draw records pulled out of the reply, valid or not. */
+  recovered: number;
+  /** Records cut off part-way or otherwise unreadable. */
+  dropped: number;
+  /** Offset in the reply just past the last complete record. */
+  cutOffAt: number;
+  /** Date of the last complete record before the cut-off. */
+  lastGoodDate?: string;
+  /** The part of the requested range the reply never reached, last good date included, or all of it if none came through. */
+  remaining?: { startDate: string; endDate: string };
+}
+
+export type ScrapeErrorKind = 'missing-key' | 'rate-limit' | 'network' | 'truncated' | 'schema' | 'empty' | 'cancelled';
+
+export interface ScrapeError {
+  kind: ScrapeErrorKind;
+  message: string;
+  /** Requests made before giving up, including the first. */
+  attempts: number;
+  /** How long the service asked callers to wait before trying again, in milliseconds. */
+  retryAfterMs?: number;
+}
+
+/**
+ * Anything that can supply draw results for a date range: the live Gemini scraper,
+ * saved official results pages, or a fixture file.
+ */
+export interface ResultProvider {
+  id: string;
+  label: string;
+  /** Whether results should go through the local archive. Only worth it for slow or costly sources. */
+  archived: boolean;
+  fetchDraws(startDate: string, endDate: string, games?: LottoGame[], options?: FetchOptions): Promise<ScrapedResult>;
+}
+
+export interface FetchOptions {
+  /** Aborts the request. Whatever valid draws arrived before the abort are still returned. */
+  signal?: AbortSignal;
+  /** Receives valid draws as soon as they arrive, before the whole result is ready. */
+  onDraws?: (draws: DrawResult[]) => void;
+}
+
+export type BonusKind = 'none' | 'bonusBall' | 'powerBall';
+
+export interface GameRules {
+  game: LottoGame;
+  /** Price of one board in rand. A Plus game's price is what it adds to a board of its main game. */
+  boardPrice: number;
+  /** How many main balls make up a winning combination. */
+  ballCount: number;
+  minNumber: number;
+  maxNumber: number;
+  bonus: BonusKind;
+  /** Inclusive range of the bonus ball or PowerBall; ignored when `bonus` is 'none'. */
+  bonusMin: number;
+  bonusMax: number;
+  /** Whether the bonus ball is drawn from the same drum as the main balls. */
+  bonusFromMainDrum: boolean;
+  /** Winning tiers, best first. A board wins the first division it satisfies. */
+  divisions: PrizeDivisionRule[];
+}
+
+export interface PrizeDivisionRule {
+  division: number;
+  mainMatches: number;
+  /** Whether the bonus ball (or PowerBall) must also match. */
+  bonusRequired: boolean;
+}
+
+export interface DrawSchedule {
+  game: LottoGame;
+  /** Days of the week the game is drawn (0 = Sunday). */
+  drawDays: number[];
+  /** Human-readable summary, e.g. "Wednesday & Saturday". */
+  description: string;
+}
+
+export interface RejectedDraw {
+  draw: Partial<DrawResult>;
+  reasons: string[];
+}
+
+/** A draw number that draws of one game on different dates both claimed, so neither keeps it. */
+export interface DrawNumberConflict {
+  game: LottoGame;
+  drawNumber: number;
+  dates: string[];
+}
+
+export interface GameCoverage {
+  game: LottoGame;
+  expectedCount: number;
+  foundCount: number;
+  /** Scheduled draw dates with no result. */
+  missingDates: string[];
+  /** Dates that have a result even though the game is not drawn that day. */
+  unexpectedDates: string[];
+}
+
+export interface CoverageReport {
+  startDate: string;
+  endDate: string;
+  games: GameCoverage[];
+}
+
+/** Every linked game's result for one date, e.g. Lotto with Lotto Plus 1 and 2. */
+export interface DrawNight {
+  date: string;
+  /** The linked games, in `LINKED_GAMES` order. */
+  games: LottoGame[];
+  draws: Partial<Record<LottoGame, DrawResult>>;
+  /** Linked games scheduled for the date that have no result. */
+  missing: LottoGame[];
+}
+
+/** How a draw's jackpot carried into the next draw. */
+export type JackpotOutcome = 'rollover' | 'won' | 'unknown';
+
+export interface JackpotPoint {
+  date: string;
+  drawNumber?: number;
+  amount: number;
+  /** Taken from the draw's rollover flag, or inferred from the next jackpot rising or falling. */
+  outcome: JackpotOutcome;
+}
+
+export interface RolloverStreak {
+  /** Consecutive draws without a jackpot winner. */
+  length: number;
+  from: string;
+  to: string;
+}
+
+export interface JackpotProjection {
+  date: string;
+  amount: number;
+  /** 'announced' when the latest draw carried the next jackpot, otherwise estimated from history. */
+  basis: 'announced' | 'estimated';
+}
+
+export interface JackpotHistory {
+  game: LottoGame;
+  /** Draws with a jackpot amount, oldest first. */
+  points: JackpotPoint[];
+  longestStreak: RolloverStreak | null;
+  /** The run of rollovers leading up to the latest draw, if it rolled over. */
+  currentStreak: RolloverStreak | null;
+  projection: JackpotProjection | null;
+}
+
+export interface NumberStat {
+  number: number;
+  count: number;
+  /** Draws since the number last came up, or null if it never did in the sample. */
+  drawsSinceSeen: number | null;
+}
+
+export interface GameStats {
+  game: LottoGame;
+  drawCount: number;
+  /** One entry per number in the game's main range, ascending. */
+  main: NumberStat[];
+  /** One entry per number in the bonus ball or PowerBall range; empty for games without one. */
+  bonus: NumberStat[];
+  hot: NumberStat[];
+  cold: NumberStat[];
+}
+
+export type AuditTestKind = 'frequency' | 'bonus-frequency' | 'odd-even-runs' | 'high-low-runs' | 'sum' | 'gaps';
+
+/** One category of a test: what the draws showed against what a fair draw would give. */
+export interface AuditBin {
+  label: string;
+  observed: number;
+  expected: number;
+}
+
+export interface AuditTest {
+  kind: AuditTestKind;
+  name: string;
+  /** What the test checks, in a sentence. */
+  description: string;
+  statisticName: 'χ²' | 'z';
+  statistic?: number;
+  degreesOfFreedom?: number;
+  /** Chance of a result at least this extreme from a fair draw; null when the sample is too small to test. */
+  pValue: number | null;
+  /** Observations the test used: balls, draws or gaps depending on the test. */
+  sampleSize: number;
+  bins: AuditBin[];
+  /** Reasons the p-value should be read with care, such as small expected counts. */
+  warnings: string[];
+}
+
+export interface GameAudit {
+  game: LottoGame;
+  drawCount: number;
+  firstDate?: string;
+  lastDate?: string;
+  tests: AuditTest[];
+}
+
+export interface TicketBoard {
+  numbers: number[];
+  /** The player's own PowerBall pick; Lotto bonus matches come from `numbers`. */
+  powerBall?: number;
+}
+
+export interface Ticket {
+  id: string;
+  game: LottoGame;
+  boards: TicketBoard[];
+  /** First and last draw dates the ticket is valid for; equal for a single-draw ticket. */
+  firstDrawDate: string;
+  lastDrawDate: string;
+}
+
+export interface BoardCheck {
+  ticketId: string;
+  boardIndex: number;
+  drawId: string;
+  game: LottoGame;
+  date: string;
+  matchedNumbers: number[];
+  bonusMatched: boolean;
+  /** The prize division reached, or null if the board did not win. */
+  division: number | null;
+}
+
+export interface MemberShare {
+  member: string;
+  /** Parts of the ticket this member paid for; costs and winnings split in proportion. */
+  shares: number;
+}
+
+/** A syndicate ticket: what was bought, what it cost and who owns it. */
+export interface WalletTicket extends Ticket {
+  /** Total paid for the ticket in rand. */
+  cost: number;
+  owners: MemberShare[];
+}
+
+export interface TicketSettlement {
+  ticketId: string;
+  drawId: string;
+  game: LottoGame;
+  date: string;
+  /** Boards that won, with their division. */
+  wins: { boardIndex: number; division: number }[];
+  /** Sum of the published payouts for the winning boards. */
+  winnings: number;
+  /** Winning boards whose payout was not yet published; the draw is settled again once it is. */
+  unpricedWins: number;
+  /** The balls and payouts settled against; a corrected draw no longer matches and is settled again. */
+  drawFingerprint: string;
+  settledAt: string;
+}
+
+export interface Ledger {
+  tickets: WalletTicket[];
+  /** One per ticket and covered draw that has a result. */
+  settlements: TicketSettlement[];
+}
+
+export interface MemberTotals {
+  member: string;
+  spend: number;
+  winnings: number;
+  net: number;
+}
+
+export interface WatchedBoard {
+  id: string;
+  game: LottoGame;
+  board: TicketBoard;
+}
+
+export interface JackpotThreshold {
+  id: string;
+  game: LottoGame;
+  /** Alert once a jackpot reaches this many rand. */
+  amount: number;
+}
+
+export interface Watchlist {
+  boards: WatchedBoard[];
+  thresholds: JackpotThreshold[];
+  /** Browser notifications are shown only when enabled here and permitted by the browser. */
+  notify: boolean;
+  /** Receives a JSON POST of `{ alert, draw }` for every alert, when set. */
+  webhookUrl?: string;
+}
+
+export interface WatchAlert {
+  /** One per watch and draw, so the same alert never fires twice. */
+  id: string;
+  kind: 'board' | 'jackpot';
+  watchId: string;
+  drawId: string;
+  game: LottoGame;
+  date: string;
+  message: string;
+  /** Set for board alerts. */
+  match?: Pick<BoardCheck, 'matchedNumbers' | 'bonusMatched' | 'division'>;
+  /** Set for jackpot alerts: the threshold and the jackpot that passed it. */
+  threshold?: number;
+  jackpot?: number;
+  firedAt: string;
+}
+
+export type DrawSortKey = 'date' | 'game' | 'jackpot';
+
+export type DrawFeatureKey = 'odd-even' | 'low-high' | 'sum' | 'spread' | 'consecutive' | 'decades';
+
+export type DrawPattern =
+  | { kind: 'combination'; numbers: number[] }
+  | { kind: 'feature'; feature: DrawFeatureKey; bucket: string };
+
+/** How a game's draws fall into the buckets of one feature, e.g. 3 odd · 3 even. */
+export interface FeatureBreakdown {
+  feature: DrawFeatureKey;
+  label: string;
+  buckets: { bucket: string; count: number }[];
+}
+
+/** A pair or triple of main balls and how often it was drawn, against a fair draw's expectation. */
+export interface CombinationCount {
+  numbers: number[];
+  count: number;
+  expected: number;
+}
+
+/** Which draws a table shows and in what order. Unset or empty criteria match everything. */
+export interface DrawQuery {
+  games: LottoGame[];
+  /** Every one of these must be among the draw's balls, bonus ball or PowerBall included. */
+  numbers: number[];
+  fromDate?: string;
+  toDate?: string;
+  minJackpot?: number;
+  maxJackpot?: number;
+  /** Keep only draws an official source was cited for. */
+  officialOnly?: boolean;
+  /** Keep only draws with this combination of main balls or in this feature bucket. */
+  pattern?: DrawPattern;
+  sort: { key: DrawSortKey; direction: 'asc' | 'desc' };
+}
+
+/** How a backtest picks the boards it plays in each draw. */
+export type BacktestStrategy =
+  | { kind: 'fixed'; boards: TicketBoard[] }
+  /** Fresh random boards every draw, drawn from the seeded generator. */
+  | { kind: 'quick-pick'; boards: number }
+  /** One board of the most (or least) frequent numbers over the previous `window` draws. */
+  | { kind: 'hot'; window: number }
+  | { kind: 'cold'; window: number }
+  /** Every combination of the game's ball count from `numbers`, played every draw. */
+  | { kind: 'wheel'; numbers: number[]; powerBall?: number };
+
+export interface BacktestConfig {
+  game: LottoGame;
+  strategies: BacktestStrategy[];
+  /** Makes quick picks and any random PowerBall repeatable. */
+  seed: number;
+  /** Overrides the game's board price, in rand. */
+  boardPrice?: number;
+}
+
+export interface StrategyResult {
+  strategy: BacktestStrategy;
+  label: string;
+  drawsPlayed: number;
+  boardsPlayed: number;
+  spend: number;
+  /** Sum of the published payouts for every winning board. */
+  winnings: number;
+  net: number;
+  /** Net return as a fraction of spend; -1 means everything was lost. */
+  roi: number;
+  /** Winning boards per prize division. */
+  hits: Record<number, number>;
+  /** Winning boards whose draw had no published payout for the division, so are not in `winnings`. */
+  unpricedWins: number;
+}
+
+export interface BacktestResult {
+  game: LottoGame;
+  seed: number;
+  boardPrice: number;
+  /** The draws replayed, oldest first. */
+  firstDate?: string;
+  lastDate?: string;
+  drawCount: number;
+  strategies: StrategyResult[];
+}
+
+/** Balls to emphasise on one draw's row, keyed by draw id. */
+export interface DrawHighlight {
+  numbers: number[];
+  bonusMatched: boolean;
+}
+
+export type VerificationStatus = 'agreed' | 'conflicting' | 'single-source';
+
+export type ReconciledField = 'numbers' | 'bonusBall' | 'powerBall' | 'jackpotAmount';
+
+/** The draws one fetch returned, labelled with where they came from. */
+export interface FetchSnapshot {
+  label: string;
+  draws: DrawResult[];
+}
+
+export interface FieldDiff {
+  field: ReconciledField;
+  /** The value each source reported, in snapshot order. */
+  values: { label: string; value: DrawResult[ReconciledField] }[];
+}
+
+export interface ReconciledDraw {
+  key: string;
+  game: LottoGame;
+  date: string;
+  status: VerificationStatus;
+  versions: { label: string; draw: DrawResult }[];
+  /** Only the fields the versions disagree on; empty unless `status` is 'conflicting'. */
+  diffs: FieldDiff[];
+  /** Label of the version the user picked to settle a conflict. */
+  chosenLabel?: string;
+}